@@ -3,10 +3,12 @@
  *
  * Loads JetBrains Mono from Google Fonts and applies the global CSS reset.
  * No providers needed here — Zustand is framework-agnostic and doesn't
- * require a context provider.
+ * require a context provider. Background work shared by every route (tab
+ * sync, daily reset, deadline checks) is mounted here, via AppServices.
  */
 
 import type { Metadata } from "next";
+import { AppServices } from "@/components/AppServices";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -38,6 +40,7 @@ export default function RootLayout({
         />
       </head>
       <body className="bg-black text-white min-h-screen antialiased">
+        <AppServices />
         {children}
       </body>
     </html>
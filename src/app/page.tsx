@@ -4,11 +4,18 @@
  * New in v2:
  *   - Greeting component (Good morning / afternoon / evening, Peter)
  *   - Passes lockedTaskIds (ordering enforcement) to each TaskPanel
- *   - Passes correct completions map and onToggle to each TaskPanel
- *   - Custom task panel rendered after built-in panels
+ *   - Passes the completions map and onToggle to each TaskPanel
+ *   - One panel per category, built from the task catalog (hidden and
+ *     off-schedule tasks excluded, catalog order preserved) — or, in the run-sheet view, a
+ *     single panel in protocol order
+ *   - Weekly quota tasks in their own panel below the daily board
+ *   - Deadline watch (missed deadlines recorded, optionally as failures)
+ *   - Correction panel for the previous day while its window is open
  *   - TaskEditor (settings + custom task management) at bottom of left panel
- *   - WeightLog + ExportButton in right panel
+ *   - WeightLog + ExportButton + BackupPanel in right panel
  *   - Weekly review link in footer
+ *   - Storage recovery banner when persisted state fails validation
+ *   - Undo/redo bar (Ctrl/⌘+Z) for task, weight and failure actions
  */
 
 "use client";
@@ -16,10 +23,12 @@
 import Link from "next/link";
 import {
   useGrindStore,
-  TASK_DEFINITIONS,
-  TaskId,
+  TaskCategory,
+  boardTasks,
+  isRestDay,
 } from "@/store/useGrindStore";
-import { useDailyReset } from "@/hooks/useDailyReset";
+import { quotaTasks } from "@/lib/quotaUtils";
+import { formatResetHour } from "@/lib/timeUtils";
 
 import { LockoutOverlay } from "@/components/LockoutOverlay";
 import { FailureOverlay } from "@/components/FailureOverlay";
@@ -27,38 +36,43 @@ import { StatusBar } from "@/components/StatusBar";
 import { TaskPanel } from "@/components/TaskPanel";
 import { TaskEditor } from "@/components/TaskEditor";
 import { StreakDisplay } from "@/components/StreakDisplay";
+import { CorrectionPanel } from "@/components/CorrectionPanel";
 import { ProgressBar } from "@/components/ProgressBar";
 import { FailureButton } from "@/components/FailureButton";
 import { FailureLog } from "@/components/FailureLog";
 import { Greeting } from "@/components/Greeting";
 import { WeightLog } from "@/components/WeightLog";
 import { ExportButton } from "@/components/ExportButton";
-
-// Built-in task groups — static, defined once outside the component
-const physicalTasks = TASK_DEFINITIONS.filter((t) => t.category === "physical");
-const cognitiveTasks = TASK_DEFINITIONS.filter((t) => t.category === "cognitive");
-const intellectualTasks = TASK_DEFINITIONS.filter(
-  (t) => t.category === "intellectual"
-);
+import { RecoveryBanner } from "@/components/RecoveryBanner";
+import { BackupPanel } from "@/components/BackupPanel";
+import { UndoBar } from "@/components/UndoBar";
+import { BoardViewToggle } from "@/components/BoardViewToggle";
+
+// Board panels, top to bottom — a panel renders only if it has tasks
+const CATEGORY_PANELS: Array<{ category: TaskCategory; label: string }> = [
+  { category: "physical", label: "PHYSICAL PROTOCOL" },
+  { category: "cognitive", label: "COGNITIVE PROTOCOL" },
+  { category: "intellectual", label: "INTELLECTUAL PROTOCOL" },
+];
 
 export default function GrindOSPage() {
-  // ── Daily reset (runs on mount + schedules future resets) ──────────────────
-  useDailyReset();
+  // Reset, sync and deadline checks run from the root layout (AppServices)
 
   // ── Read state from store ──────────────────────────────────────────────────
+  const hasHydrated = useGrindStore((s) => s.hasHydrated);
   const protocolStartTime = useGrindStore((s) => s.protocolStartTime);
   const isFailureActive = useGrindStore((s) => s.isFailureActive);
   const isDayComplete = useGrindStore((s) => s.isDayComplete());
+  const resetHour = useGrindStore((s) => s.resetHour);
 
-  // Built-in task completions
-  const tasks = useGrindStore((s) => s.tasks);
-  // Custom tasks
-  const customTasks = useGrindStore((s) => s.customTasks);
-  const customTaskCompletions = useGrindStore((s) => s.customTaskCompletions);
+  // Task catalog + completions for the day on the board
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const completions = useGrindStore((s) => s.completions);
+  const dashboardView = useGrindStore((s) => s.dashboardView);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
 
   // Actions
   const toggleTask = useGrindStore((s) => s.toggleTask);
-  const toggleCustomTask = useGrindStore((s) => s.toggleCustomTask);
 
   // Computed: which tasks are locked (ordering enforcement)
   // IMPORTANT: call lockedTaskIds() OUTSIDE the selector so Zustand only
@@ -67,51 +81,40 @@ export default function GrindOSPage() {
   const getLockedTaskIds = useGrindStore((s) => s.lockedTaskIds);
   const lockedTaskIds = getLockedTaskIds();
 
-  // ── Lockout gate ───────────────────────────────────────────────────────────
-  if (!protocolStartTime) {
-    return <LockoutOverlay />;
+  // ── Hydration gate (storage is async — don't flash the lockout) ──────────
+  if (!hasHydrated) {
+    return <div className="min-h-screen bg-black" aria-busy="true" />;
   }
 
-  // ── Shared completions maps for TaskPanel ──────────────────────────────────
-  // TaskPanel receives a plain Record<string, boolean> for its task list
-  const builtinCompletions = tasks as Record<string, boolean>;
-
-  // Custom tasks grouped by category
-  const customPhysical = customTasks.filter((t) => t.category === "physical");
-  const customCognitive = customTasks.filter((t) => t.category === "cognitive");
-  const customIntellectual = customTasks.filter((t) => t.category === "intellectual");
-
-  // Custom tasks that don't fit a category (shouldn't happen, but defensive)
-  const customOther = customTasks.filter(
-    (t) =>
-      !["physical", "cognitive", "intellectual"].includes(t.category)
-  );
-
-  // Merge custom tasks into their respective category panels
-  const physicalAll = [...physicalTasks, ...customPhysical];
-  const cognitiveAll = [...cognitiveTasks, ...customCognitive];
-  const intellectualAll = [...intellectualTasks, ...customIntellectual];
-
-  // onToggle for each row: built-in TaskId vs custom id
-  function handleToggle(id: string) {
-    const isBuiltin = TASK_DEFINITIONS.some((t) => t.id === id);
-    if (isBuiltin) {
-      toggleTask(id as TaskId);
-    } else {
-      toggleCustomTask(id);
-    }
+  // ── Lockout gate ───────────────────────────────────────────────────────────
+  if (!protocolStartTime) {
+    return (
+      <>
+        <LockoutOverlay />
+        <RecoveryBanner />
+      </>
+    );
   }
 
-  // Merged completions: built-in + custom in one map
-  const allCompletions: Record<string, boolean> = {
-    ...builtinCompletions,
-    ...customTaskCompletions,
-  };
+  // ── Board tasks: category panels, or one run sheet in protocol order ──────
+  const board = boardTasks(taskCatalog, boardDay);
+  const panels = (
+    dashboardView === "runSheet"
+      ? [{ key: "runSheet", category: undefined, label: "RUN SHEET", tasks: board }]
+      : CATEGORY_PANELS.map((panel) => ({
+          ...panel,
+          key: panel.category,
+          tasks: board.filter((t) => t.category === panel.category),
+        }))
+  ).filter((panel) => panel.tasks.length > 0);
+  const weeklyTasks = quotaTasks(taskCatalog);
 
   return (
     <>
       {/* Full-screen failure overlay (z-40, pointer-events: none) */}
       <FailureOverlay />
+      <RecoveryBanner />
+      <UndoBar />
 
       <div className="min-h-screen flex flex-col font-mono bg-black">
         {/* ── Status bar ────────────────────────────────────────────── */}
@@ -138,60 +141,43 @@ export default function GrindOSPage() {
             {/* ── LEFT: Task panels (2/3 width) ──────────────────────── */}
             <div className="lg:col-span-2 border-r-0 lg:border-r border-white flex flex-col">
 
-              {/* Physical */}
-              {physicalAll.length > 0 && (
-                <div className="border-b border-white">
-                  <TaskPanel
-                    category="physical"
-                    tasks={physicalAll}
-                    label="PHYSICAL PROTOCOL"
-                    lockedTaskIds={lockedTaskIds}
-                    onToggle={handleToggle}
-                    completions={allCompletions}
-                  />
+              <div className="border-b border-white">
+                <BoardViewToggle />
+              </div>
+
+              {isRestDay(taskCatalog, boardDay) && (
+                <div className="border-b border-white px-4 py-6 text-center">
+                  <p className="text-white/40 text-xs tracking-[0.4em] uppercase">
+                    REST DAY — NO DAILY TASKS SCHEDULED
+                  </p>
                 </div>
               )}
 
-              {/* Cognitive */}
-              {cognitiveAll.length > 0 && (
-                <div className="border-b border-white">
+              {panels.map((panel) => (
+                <div key={panel.key} className="border-b border-white">
                   <TaskPanel
-                    category="cognitive"
-                    tasks={cognitiveAll}
-                    label="COGNITIVE PROTOCOL"
+                    category={panel.category}
+                    tasks={panel.tasks}
+                    label={panel.label}
                     lockedTaskIds={lockedTaskIds}
-                    onToggle={handleToggle}
-                    completions={allCompletions}
+                    onToggle={toggleTask}
+                    completions={completions}
                   />
                 </div>
-              )}
+              ))}
 
-              {/* Intellectual */}
-              {intellectualAll.length > 0 && (
-                <div className={customOther.length > 0 ? "border-b border-white" : ""}>
+              {weeklyTasks.length > 0 && (
+                <div className="border-b border-white">
                   <TaskPanel
-                    category="intellectual"
-                    tasks={intellectualAll}
-                    label="INTELLECTUAL PROTOCOL"
+                    tasks={weeklyTasks}
+                    label="WEEKLY QUOTAS"
                     lockedTaskIds={lockedTaskIds}
-                    onToggle={handleToggle}
-                    completions={allCompletions}
+                    onToggle={toggleTask}
+                    completions={completions}
                   />
                 </div>
               )}
 
-              {/* Uncategorized custom tasks (edge case) */}
-              {customOther.length > 0 && (
-                <TaskPanel
-                  category="cognitive"
-                  tasks={customOther}
-                  label="ADDITIONAL TASKS"
-                  lockedTaskIds={lockedTaskIds}
-                  onToggle={handleToggle}
-                  completions={allCompletions}
-                />
-              )}
-
               {/* Task editor + settings (always at bottom of left column) */}
               <div className="mt-auto border-t border-white/20">
                 <TaskEditor />
@@ -206,6 +192,9 @@ export default function GrindOSPage() {
                 <StreakDisplay />
               </div>
 
+              {/* Correction window (renders only while open) */}
+              <CorrectionPanel />
+
               {/* Progress */}
               <div className="border-b border-white p-5">
                 <ProgressBar />
@@ -226,6 +215,11 @@ export default function GrindOSPage() {
                 <ExportButton />
               </div>
 
+              {/* Backup & restore */}
+              <div className="border-b border-white">
+                <BackupPanel />
+              </div>
+
               {/* Failure log */}
               <div className="flex-1">
                 <FailureLog />
@@ -243,7 +237,7 @@ export default function GrindOSPage() {
             >
               WEEKLY REVIEW →
             </Link>
-            <span>RESETS AT 04:00</span>
+            <span>RESETS AT {formatResetHour(resetHour)}</span>
           </footer>
         </main>
       </div>
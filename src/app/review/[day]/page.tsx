@@ -0,0 +1,438 @@
+/**
+ * review/[day]/page.tsx — Day Drill-down
+ *
+ * Full breakdown of a single discipline day:
+ *   - Task results (labels as they were that day) with completion times
+ *   - Intent and energy level
+ *   - The streak verdict and its reason (closed days only)
+ *   - Corrections made after the day closed, with the values they replaced
+ *   - Pomodoro sessions: focused time, planned length and how each ended
+ *   - Failures and weight entries logged that day
+ *
+ * Past days come from `dayHistory`; the day currently on the board is
+ * archived on the fly from live state. Records archived before per-task
+ * results existed show counts only.
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import {
+  DayAmendment,
+  DayRecord,
+  PomodoroSession,
+  TaskResult,
+  archiveDay,
+  useGrindStore,
+} from "@/store/useGrindStore";
+import { formatLocalTime, getDisciplineDay } from "@/lib/timeUtils";
+import { VERDICT_LABELS } from "@/lib/streakUtils";
+import {
+  SESSION_OUTCOME_LABELS,
+  formatFocus,
+  sessionsForDay,
+} from "@/lib/pomodoroUtils";
+import { ArrowLeft } from "lucide-react";
+
+const MOOD_LABELS: Record<number, string> = {
+  0: "—",
+  1: "DEPLETED",
+  2: "LOW",
+  3: "NEUTRAL",
+  4: "CHARGED",
+  5: "PEAK",
+};
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default function DayReviewPage({
+  params,
+}: {
+  params: { day: string };
+}) {
+  const day = params.day;
+  const dayHistory = useGrindStore((s) => s.dayHistory);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const completions = useGrindStore((s) => s.completions);
+  const progress = useGrindStore((s) => s.progress);
+  const checkedItems = useGrindStore((s) => s.checkedItems);
+  const dailyIntents = useGrindStore((s) => s.dailyIntents);
+  const dailyMoods = useGrindStore((s) => s.dailyMoods);
+  const activityLog = useGrindStore((s) => s.activityLog);
+  const failureHistory = useGrindStore((s) => s.failureHistory);
+  const weightLog = useGrindStore((s) => s.weightLog);
+  const amendments = useGrindStore((s) => s.amendments);
+  const pomodoroSessions = useGrindStore((s) => s.pomodoroSessions);
+
+  const isLive = day === boardDay;
+
+  const record: DayRecord | null = useMemo(() => {
+    if (isLive) return archiveDay(useGrindStore.getState(), day);
+    return dayHistory[day] ?? null;
+    // Live inputs listed so the on-the-fly archive follows the board
+  }, [
+    isLive,
+    day,
+    dayHistory,
+    taskCatalog,
+    completions,
+    progress,
+    checkedItems,
+    dailyIntents,
+    dailyMoods,
+    activityLog,
+    failureHistory,
+    pomodoroSessions,
+  ]);
+
+  const failures = failureHistory.filter((f) => f.disciplineDay === day);
+  const weights = weightLog.filter(
+    (w) => getDisciplineDay(new Date(w.timestamp)) === day
+  );
+  const corrections = amendments.filter((a) => a.disciplineDay === day);
+  const sessions = sessionsForDay(pomodoroSessions, day);
+
+  return (
+    <div className="min-h-screen bg-black text-white font-mono">
+      {/* Header */}
+      <header className="border-b border-white px-6 py-4 flex items-center justify-between">
+        <Link
+          href="/review"
+          className="flex items-center gap-2 text-white/50 hover:text-white text-xs tracking-widest uppercase transition-colors"
+          aria-label="Back to weekly review"
+        >
+          <ArrowLeft size={14} />
+          REVIEW
+        </Link>
+        <h1 className="text-sm font-bold tracking-[0.4em] uppercase">
+          {DAY_PATTERN.test(day) ? day : "UNKNOWN DAY"}
+        </h1>
+        <div className="text-white/30 text-xs tracking-widest">
+          {isLive ? "LIVE" : record?.amended ? "AMENDED" : "ARCHIVED"}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-10">
+        {!record ? (
+          <p className="text-white/30 text-xs tracking-widest uppercase">
+            NO RECORD FOR THIS DISCIPLINE DAY
+          </p>
+        ) : (
+          <>
+            {/* ── Summary ─────────────────────────────────────────── */}
+            <div className="grid grid-cols-4 border border-white/20">
+              <StatCell
+                label="TASKS"
+                value={`${record.tasksCompleted}/${record.totalTasks}`}
+                caption={
+                  record.progressPercent !== undefined
+                    ? `${record.progressPercent}% PROGRESS`
+                    : undefined
+                }
+                highlight={record.complete}
+              />
+              <StatCell
+                label="STATUS"
+                value={
+                  record.complete
+                    ? "COMPLETE"
+                    : isLive
+                    ? "OPEN"
+                    : record.unopened
+                    ? "UNOPENED"
+                    : "MISSED"
+                }
+                highlight={record.complete}
+              />
+              <StatCell label="FAILURES" value={String(record.failureCount)} />
+              <StatCell
+                label="ENERGY"
+                value={record.mood > 0 ? `${record.mood}/5` : "—"}
+                caption={MOOD_LABELS[record.mood]}
+              />
+            </div>
+
+            {/* ── Streak verdict ──────────────────────────────────── */}
+            {record.verdict && (
+              <p
+                className={`text-xs tracking-widest uppercase ${
+                  record.verdict.kind === "broken"
+                    ? "text-terminal-red"
+                    : "text-white/50"
+                }`}
+              >
+                STREAK: {VERDICT_LABELS[record.verdict.kind]} —{" "}
+                {record.verdict.reason}
+              </p>
+            )}
+
+            {/* ── Intent ──────────────────────────────────────────── */}
+            <section>
+              <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-2">
+                OBJECTIVE
+              </p>
+              <p className="text-sm tracking-wide">
+                {record.intent || "—"}
+              </p>
+            </section>
+
+            {/* ── Tasks ───────────────────────────────────────────── */}
+            <section>
+              <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+                TASKS
+              </p>
+              {record.unopened ? (
+                <p className="text-white/30 text-xs tracking-widest uppercase">
+                  GRINDOS WAS NOT OPENED THIS DAY — ALL TASKS MISSED
+                </p>
+              ) : record.taskResults ? (
+                <ul className="border border-white/20 divide-y divide-white/10">
+                  {record.taskResults.map((result) => (
+                    <TaskResultRow key={result.id} result={result} />
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-white/30 text-xs tracking-widest uppercase">
+                  PER-TASK DETAIL NOT RECORDED FOR THIS DAY
+                </p>
+              )}
+            </section>
+          </>
+        )}
+
+        {/* ── Corrections ─────────────────────────────────────────── */}
+        {corrections.length > 0 && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              CORRECTIONS AFTER CLOSE
+            </p>
+            <div className="border border-white/20 divide-y divide-white/10">
+              {corrections.map((a) => (
+                <AmendmentRow key={a.timestamp} amendment={a} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* ── Pomodoro sessions ───────────────────────────────────── */}
+        {sessions.length > 0 && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              FOCUS SESSIONS
+              {record?.focusMinutes !== undefined &&
+                ` — ${formatFocus(record.focusMinutes)} TOTAL`}
+            </p>
+            <div className="border border-white/20 divide-y divide-white/10">
+              {sessions.map((s) => (
+                <SessionRow key={s.timestamp} session={s} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* ── Failures ────────────────────────────────────────────── */}
+        {failures.length > 0 && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              FAILURES
+            </p>
+            <div className="border border-terminal-red/30 divide-y divide-terminal-red/10">
+              {failures.map((f, i) => (
+                <div key={f.timestamp} className="flex justify-between px-4 py-2">
+                  <span className="text-terminal-red/50 text-xs font-mono">
+                    FAILURE {String(i + 1).padStart(2, "0")}
+                  </span>
+                  <span className="text-terminal-red text-xs font-mono tabular-nums">
+                    {formatLocalTime(f.timestamp)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* ── Weight ──────────────────────────────────────────────── */}
+        {weights.length > 0 && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              BIOMETRICS
+            </p>
+            <div className="border border-white/20 divide-y divide-white/10">
+              {weights.map((w) => (
+                <div key={w.timestamp} className="flex justify-between px-4 py-2">
+                  <span className="text-white text-xs font-mono tabular-nums">
+                    {w.value} {w.unit.toUpperCase()}
+                  </span>
+                  <span className="text-white/40 text-xs font-mono tabular-nums">
+                    {formatLocalTime(w.timestamp)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// ─── Sub-components ───────────────────────────────────────────────────────────
+
+function TaskResultRow({ result }: { result: TaskResult }) {
+  return (
+    <li className="px-4 py-2">
+      <div className="flex items-center gap-4">
+        <span
+          className={`text-xs font-bold ${
+            result.done ? "text-white" : "text-white/30"
+          }`}
+        >
+          {result.done ? "[✓]" : "[ ]"}
+        </span>
+        <span
+          className={`flex-1 text-xs tracking-widest uppercase ${
+            result.done ? "text-white" : "text-white/40"
+          }`}
+        >
+          {result.label}
+        </span>
+        {result.target && (
+          <span className="text-white/50 text-xs font-mono tabular-nums uppercase">
+            {result.amount ?? 0}/{result.target.amount} {result.target.unit}
+          </span>
+        )}
+        <span className="text-white/30 text-[10px] tracking-widest uppercase">
+          {result.category}
+        </span>
+        {result.deadline && (
+          <span
+            className={`text-[10px] font-mono tracking-widest uppercase ${
+              result.late ? "text-terminal-red" : "text-white/30"
+            }`}
+          >
+            {result.late ? "LATE · " : ""}DUE {result.deadline}
+          </span>
+        )}
+        {result.amended && (
+          <span className="text-white/40 text-[10px] tracking-widest uppercase">
+            AMENDED
+          </span>
+        )}
+        {result.focusMinutes !== undefined && (
+          <span className="text-white/40 text-[10px] font-mono tracking-widest uppercase">
+            {formatFocus(result.focusMinutes)} FOCUS
+          </span>
+        )}
+        <span className="w-20 text-right text-white/50 text-xs font-mono tabular-nums">
+          {result.done ? formatLocalTime(result.completedAt) : "MISSED"}
+        </span>
+      </div>
+      {result.checklist && (
+        <ul className="mt-1 ml-10 space-y-0.5">
+          {result.checklist.map((item, i) => (
+            <li
+              key={i}
+              className={`text-[10px] font-mono tracking-widest uppercase ${
+                item.done ? "text-white/60" : "text-white/25"
+              }`}
+            >
+              {item.done ? "[✓]" : "[ ]"} {item.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function AmendmentRow({ amendment }: { amendment: DayAmendment }) {
+  const { original } = amendment;
+  return (
+    <div className="px-4 py-2 space-y-0.5">
+      <div className="flex items-center gap-4">
+        <span className="text-white/40 text-xs font-mono tabular-nums">
+          {formatLocalTime(amendment.timestamp)}
+        </span>
+        <span className="flex-1 text-xs tracking-widest uppercase">
+          {amendment.label}
+        </span>
+        <span className="text-white/60 text-xs font-mono">
+          {amendment.wasDone ? "[✓]" : "[ ]"} → {amendment.done ? "[✓]" : "[ ]"}
+        </span>
+      </div>
+      <p className="text-white/30 text-[10px] tracking-widest uppercase">
+        WAS {original.tasksCompleted} TASKS
+        {original.progressPercent !== null
+          ? ` · ${original.progressPercent}%`
+          : ""}
+        {original.verdict
+          ? ` · ${VERDICT_LABELS[original.verdict.kind]} — ${original.verdict.reason}`
+          : ""}
+        {` · STREAK ${original.streak}`}
+      </p>
+    </div>
+  );
+}
+
+function SessionRow({ session }: { session: PomodoroSession }) {
+  const focused = Math.round(session.focusedMs / 60_000);
+  const planned = Math.round(session.plannedMs / 60_000);
+  return (
+    <div className="flex items-center gap-4 px-4 py-2">
+      <span className="text-white/40 text-xs font-mono tabular-nums">
+        {formatLocalTime(session.timestamp)}
+      </span>
+      <span className="flex-1 text-xs tracking-widest uppercase">
+        {session.label}
+      </span>
+      <span className="text-white/60 text-xs font-mono tabular-nums">
+        {formatFocus(focused)} / {planned}m
+      </span>
+      <span
+        className={`w-36 text-right text-[10px] tracking-widest uppercase ${
+          session.outcome === "completed" ? "text-white/50" : "text-white/30"
+        }`}
+      >
+        {SESSION_OUTCOME_LABELS[session.outcome]}
+      </span>
+    </div>
+  );
+}
+
+function StatCell({
+  label,
+  value,
+  caption,
+  highlight = false,
+}: {
+  label: string;
+  value: string;
+  caption?: string;
+  highlight?: boolean;
+}) {
+  return (
+    <div
+      className={`p-4 border-r border-white/10 last:border-r-0 ${
+        highlight ? "bg-white/5" : ""
+      }`}
+    >
+      <p className="text-white/30 text-[10px] tracking-widest uppercase mb-1">
+        {label}
+      </p>
+      <p
+        className={`text-2xl font-bold font-mono tabular-nums ${
+          highlight ? "text-white" : "text-white/60"
+        }`}
+      >
+        {value}
+      </p>
+      {caption && (
+        <p className="text-white/30 text-[9px] tracking-widest uppercase mt-1">
+          {caption}
+        </p>
+      )}
+    </div>
+  );
+}
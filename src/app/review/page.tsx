@@ -6,14 +6,47 @@
  *   - `dayHistory` — archived records from past resets
  *   - Live store state — for the current active discipline day
  *
- * Navigation back to dashboard via Link.
+ * Navigation back to dashboard via Link. Each day with data links to its
+ * drill-down at /review/[day].
+ *
+ * Each closed day shows its streak verdict (see lib/streakUtils.ts); hover
+ * for the reason. Days corrected after they closed are marked AMD.
+ *
+ * Below the heatmap, weekly quota attainment for the calendar weeks it
+ * spans: closed weeks from `weekHistory`, the running week computed live.
+ * Then every streak run on record, derived from the day verdicts, with the
+ * day and reason that ended it.
+ *
+ * The focus trend charts pomodoro focus minutes per day: archived days from
+ * their record, today from the live session log.
  */
 
 "use client";
 
+import { useMemo } from "react";
 import Link from "next/link";
-import { useGrindStore, TASK_DEFINITIONS } from "@/store/useGrindStore";
-import { getDisciplineDay, getPreviousDisciplineDay } from "@/lib/timeUtils";
+import {
+  useGrindStore,
+  boardTasks,
+  isBoardComplete,
+  WeekRecord,
+  StreakVerdict,
+} from "@/store/useGrindStore";
+import {
+  getDisciplineDay,
+  getPreviousDisciplineDay,
+  shiftDisciplineDay,
+} from "@/lib/timeUtils";
+import { archiveWeek, weekStartOf } from "@/lib/quotaUtils";
+import {
+  dayVerdicts,
+  describePolicy,
+  streakRuns,
+  streakSummary,
+  StreakRun,
+  VERDICT_LABELS,
+} from "@/lib/streakUtils";
+import { focusMinutes, formatFocus } from "@/lib/pomodoroUtils";
 import { ArrowLeft } from "lucide-react";
 
 const MOOD_LABELS: Record<number, string> = {
@@ -38,34 +71,73 @@ function getLastNDays(n: number): string[] {
 
 export default function ReviewPage() {
   const dayHistory = useGrindStore((s) => s.dayHistory);
-  const tasks = useGrindStore((s) => s.tasks);
-  const customTasks = useGrindStore((s) => s.customTasks);
-  const customTaskCompletions = useGrindStore((s) => s.customTaskCompletions);
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const completions = useGrindStore((s) => s.completions);
   const streak = useGrindStore((s) => s.streak);
   const failureHistory = useGrindStore((s) => s.failureHistory);
   const dailyMoods = useGrindStore((s) => s.dailyMoods);
   const dailyIntents = useGrindStore((s) => s.dailyIntents);
+  const weekHistory = useGrindStore((s) => s.weekHistory);
+  const streakPolicy = useGrindStore((s) => s.streakPolicy);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
+  const pomodoroSessions = useGrindStore((s) => s.pomodoroSessions);
 
   const days = getLastNDays(14);
   const today = getDisciplineDay();
 
   // Compute live "today" stats
-  const todayBuiltinDone = TASK_DEFINITIONS.filter((t) => tasks[t.id]).length;
-  const todayCustomDone = customTasks.filter(
-    (t) => customTaskCompletions[t.id]
-  ).length;
-  const todayTotal = TASK_DEFINITIONS.length + customTasks.length;
-  const todayDone = todayBuiltinDone + todayCustomDone;
+  const board = boardTasks(taskCatalog, today);
+  const todayTotal = board.length;
+  const todayDone = board.filter((t) => completions[t.id]).length;
+  const todayComplete = isBoardComplete(taskCatalog, today, completions);
   const todayFailures = failureHistory.filter(
     (f) => f.disciplineDay === today
   ).length;
 
   // Consecutive streak breakdown for the 14 days
   const daysComplete = days.filter((d) => {
-    if (d === today) return todayDone === todayTotal && todayTotal > 0;
+    if (d === today) return todayComplete;
     return dayHistory[d]?.complete ?? false;
   }).length;
 
+  // Streak runs from the day verdicts, most recent first
+  const runs = useMemo(
+    () => streakRuns(dayVerdicts(dayHistory, boardDay, streakPolicy)),
+    [dayHistory, boardDay, streakPolicy]
+  );
+  const longestStreak = Math.max(streakSummary(runs).longest, streak);
+  const recentRuns = runs.slice().reverse();
+
+  // Calendar weeks the heatmap spans, most recent first
+  const currentWeek = weekStartOf(today);
+  const weeks: WeekRecord[] = [];
+  for (
+    let week = currentWeek;
+    week >= weekStartOf(days[days.length - 1]);
+    week = shiftDisciplineDay(week, -7)
+  ) {
+    weeks.push(
+      week === currentWeek
+        ? archiveWeek(taskCatalog, week, dayHistory, { day: today, completions })
+        : weekHistory[week] ?? { weekStart: week, quotas: [] }
+    );
+  }
+  const hasQuotas = weeks.some((w) => w.quotas.length > 0);
+
+  // Focus minutes per day, oldest first
+  const focusByDay = days
+    .slice()
+    .reverse()
+    .map((day) => ({
+      day,
+      minutes:
+        day === today
+          ? focusMinutes(pomodoroSessions, today)
+          : dayHistory[day]?.focusMinutes ?? 0,
+    }));
+  const focusTotal = focusByDay.reduce((sum, d) => sum + d.minutes, 0);
+  const focusPeak = Math.max(...focusByDay.map((d) => d.minutes));
+
   return (
     <div className="min-h-screen bg-black text-white font-mono">
       {/* Header */}
@@ -89,7 +161,7 @@ export default function ReviewPage() {
       <main className="max-w-4xl mx-auto px-4 py-8 space-y-10">
 
         {/* ── 14-day summary stats ──────────────────────────────────── */}
-        <div className="grid grid-cols-3 border border-white/20">
+        <div className="grid grid-cols-4 border border-white/20">
           <StatCell label="DAYS TRACKED" value={String(days.length)} />
           <StatCell
             label="COMPLETE"
@@ -97,6 +169,11 @@ export default function ReviewPage() {
             highlight={daysComplete === days.length}
           />
           <StatCell label="ACTIVE STREAK" value={`${streak}d`} highlight={streak > 0} />
+          <StatCell
+            label="BEST STREAK"
+            value={`${longestStreak}d`}
+            highlight={longestStreak > 0 && streak === longestStreak}
+          />
         </div>
 
         {/* ── Calendar heatmap ─────────────────────────────────────── */}
@@ -117,10 +194,11 @@ export default function ReviewPage() {
               let failures = 0;
               let mood = 0;
               let intent = "";
+              let unopened = false;
               let hasData = isToday || !!record;
 
               if (isToday) {
-                complete = todayDone === todayTotal && todayTotal > 0;
+                complete = todayComplete;
                 tasksCompleted = todayDone;
                 failures = todayFailures;
                 mood = dailyMoods[today] ?? 0;
@@ -132,6 +210,7 @@ export default function ReviewPage() {
                 failures = record.failureCount;
                 mood = record.mood;
                 intent = record.intent;
+                unopened = record.unopened ?? false;
               }
 
               return (
@@ -146,6 +225,10 @@ export default function ReviewPage() {
                   failures={failures}
                   mood={mood}
                   intent={intent}
+                  unopened={unopened}
+                  quotaMissed={!isToday && !!record?.quotaMissed}
+                  verdict={isToday ? undefined : record?.verdict}
+                  amended={!isToday && !!record?.amended}
                 />
               );
             })}
@@ -156,10 +239,62 @@ export default function ReviewPage() {
             <LegendItem color="bg-white" label="COMPLETE" />
             <LegendItem color="bg-white/20" label="INCOMPLETE" />
             <LegendItem color="bg-terminal-red/60" label="HAD FAILURES" />
+            <LegendItem color="bg-black border border-dashed border-white/40" label="UNOPENED" />
             <LegendItem color="bg-black border border-white/10" label="NO DATA" />
           </div>
+          <p className="text-white/20 text-[10px] tracking-widest uppercase mt-3">
+            STREAK POLICY: {describePolicy(streakPolicy)} — REST / FROZEN
+            DAYS HOLD THE STREAK, BROKEN RESETS IT
+          </p>
         </section>
 
+        {/* ── Weekly quotas ────────────────────────────────────────── */}
+        {hasQuotas && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              WEEKLY QUOTAS
+            </p>
+            <div className="border border-white/20 divide-y divide-white/10">
+              {weeks.map((week) => (
+                <WeekRow
+                  key={week.weekStart}
+                  week={week}
+                  isCurrent={week.weekStart === currentWeek}
+                />
+              ))}
+            </div>
+            <p className="mt-3 text-white/25 text-[9px] tracking-widest uppercase leading-relaxed">
+              CALENDAR QUOTAS ARE JUDGED AT THE END OF SUNDAY, ROLLING QUOTAS
+              AT THE END OF EVERY DAY. A WINDOW THAT FALLS SHORT MARKS THAT DAY
+              QUOTA MISSED AND ENDS THE STREAK, EVEN IF ITS DAILY TASKS WERE
+              DONE.
+            </p>
+          </section>
+        )}
+
+        {/* ── Streak history ───────────────────────────────────────── */}
+        {runs.length > 0 && (
+          <section>
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+              STREAK HISTORY (ALL TIME — {runs.length} RUNS)
+            </p>
+            <div className="border border-white/20 divide-y divide-white/10">
+              {recentRuns.slice(0, 10).map((run) => (
+                <RunRow
+                  key={run.start}
+                  run={run}
+                  isLongest={run.length === longestStreak}
+                />
+              ))}
+              {recentRuns.length > 10 && (
+                <div className="px-4 py-2 text-white/30 text-[10px] tracking-widest uppercase text-right">
+                  +{recentRuns.length - 10} MORE
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
         {/* ── Mood trend ───────────────────────────────────────────── */}
         <section>
           <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
@@ -198,6 +333,39 @@ export default function ReviewPage() {
           </div>
         </section>
 
+        {/* ── Focus trend ──────────────────────────────────────────── */}
+        <section>
+          <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-4">
+            FOCUS TREND (14 DAYS — {formatFocus(focusTotal)})
+          </p>
+          <div className="flex items-end gap-2 h-24 border-b border-white/10">
+            {focusByDay.map(({ day, minutes }) => (
+              <div
+                key={day}
+                className="flex-1 h-full flex flex-col items-center justify-end gap-1"
+                title={`${day}: ${formatFocus(minutes)} focused`}
+              >
+                <div
+                  className={`w-full transition-all ${
+                    minutes > 0 ? "bg-white" : "bg-white/10"
+                  }`}
+                  style={{
+                    height: `${focusPeak > 0 ? (minutes / focusPeak) * 100 : 0}%`,
+                  }}
+                />
+                <span className="text-white/20 text-[8px] font-mono">
+                  {minutes > 0 ? minutes : "—"}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-white/15 text-[9px] tracking-widest">
+            <span>{days[days.length - 1]}</span>
+            <span>MINUTES / DAY</span>
+            <span>TODAY</span>
+          </div>
+        </section>
+
         {/* ── Failure breakdown ────────────────────────────────────── */}
         {failureHistory.length > 0 && (
           <section>
@@ -247,6 +415,14 @@ interface DayCellProps {
   failures: number;
   mood: number;
   intent: string;
+  /** Backfilled: the app was never opened that day */
+  unopened: boolean;
+  /** A weekly quota window closed short on this day */
+  quotaMissed: boolean;
+  /** How the day was judged for the streak (closed days only) */
+  verdict?: StreakVerdict;
+  /** Corrected in the correction window after it closed */
+  amended: boolean;
 }
 
 function DayCell({
@@ -258,12 +434,18 @@ function DayCell({
   totalTasks,
   failures,
   mood,
+  unopened,
+  quotaMissed,
+  verdict,
+  amended,
 }: DayCellProps) {
   // Short date label: "22" or "22*"
   const dayNumber = day.split("-")[2];
 
   const bgClass = !hasData
     ? "bg-black"
+    : unopened
+    ? "bg-black border border-dashed border-white/40"
     : complete && failures === 0
     ? "bg-white"
     : complete
@@ -275,15 +457,16 @@ function DayCell({
   const textClass =
     complete && failures === 0 ? "text-black" : "text-white";
 
-  return (
-    <div
-      className={`
-        relative p-2 min-h-[80px] flex flex-col justify-between
-        ${bgClass}
-        ${isToday ? "ring-2 ring-white ring-inset" : ""}
-      `}
-      title={`${day} — ${hasData ? `${tasksCompleted}/${totalTasks} tasks${failures > 0 ? `, ${failures} failure(s)` : ""}` : "No data"}`}
-    >
+  const cellClass = `
+    relative p-2 min-h-[80px] flex flex-col justify-between
+    ${bgClass}
+    ${isToday ? "ring-2 ring-white ring-inset" : ""}
+  `;
+
+  const title = `${day} — ${unopened ? "Unopened (missed)" : hasData ? `${tasksCompleted}/${totalTasks} tasks${failures > 0 ? `, ${failures} failure(s)` : ""}` : "No data"}${quotaMissed ? ", weekly quota missed" : ""}${amended ? ", amended after close" : ""}${verdict ? ` — streak: ${VERDICT_LABELS[verdict.kind]} (${verdict.reason})` : ""}`;
+
+  const content = (
+    <>
       <div className="flex items-start justify-between">
         <span
           className={`text-xs font-bold font-mono ${
@@ -309,7 +492,7 @@ function DayCell({
               complete ? textClass + " opacity-60" : "text-white/30"
             }`}
           >
-            {tasksCompleted}/{totalTasks}
+            {unopened ? "UNOPENED" : `${tasksCompleted}/${totalTasks}`}
           </p>
           {mood > 0 && (
             <p
@@ -320,8 +503,128 @@ function DayCell({
               E:{mood}
             </p>
           )}
+          {quotaMissed && (
+            <p
+              className={`text-[8px] font-mono tracking-widest ${
+                complete ? textClass + " opacity-60" : "text-white/40"
+              }`}
+            >
+              Q✗
+            </p>
+          )}
+          {amended && (
+            <p
+              className={`text-[8px] font-mono tracking-widest ${
+                complete ? textClass + " opacity-60" : "text-white/40"
+              }`}
+            >
+              AMD
+            </p>
+          )}
+          {verdict && verdict.kind !== "counted" && (
+            <p
+              className={`text-[8px] font-mono tracking-widest ${
+                verdict.kind === "broken"
+                  ? "text-terminal-red"
+                  : complete
+                  ? textClass + " opacity-60"
+                  : "text-white/40"
+              }`}
+            >
+              {VERDICT_LABELS[verdict.kind]}
+            </p>
+          )}
         </div>
       )}
+    </>
+  );
+
+  // Days with data open their full breakdown
+  if (!hasData) {
+    return (
+      <div className={cellClass} title={title}>
+        {content}
+      </div>
+    );
+  }
+
+  return (
+    <Link
+      href={`/review/${day}`}
+      className={`${cellClass} hover:opacity-80 transition-opacity`}
+      title={title}
+    >
+      {content}
+    </Link>
+  );
+}
+
+function WeekRow({
+  week,
+  isCurrent,
+}: {
+  week: WeekRecord;
+  isCurrent: boolean;
+}) {
+  return (
+    <div className="px-4 py-3 flex gap-4">
+      <span className="w-28 flex-shrink-0 text-white/40 text-xs font-mono">
+        {week.weekStart}
+        {isCurrent && (
+          <span className="block text-[8px] tracking-widest">IN PROGRESS</span>
+        )}
+      </span>
+      {week.quotas.length === 0 ? (
+        <span className="text-white/20 text-[10px] tracking-widest uppercase">
+          NO QUOTAS
+        </span>
+      ) : (
+        <ul className="flex-1 space-y-1">
+          {week.quotas.map((q) => (
+            <li
+              key={q.id}
+              className="flex justify-between text-xs tracking-widest uppercase"
+            >
+              <span className={q.met ? "text-white" : "text-white/50"}>
+                {q.met ? "✓ " : ""}
+                {q.label}
+              </span>
+              <span className="font-mono tabular-nums text-white/50">
+                {q.count}/{q.target}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function RunRow({ run, isLongest }: { run: StreakRun; isLongest: boolean }) {
+  return (
+    <div className="px-4 py-3 flex gap-4 items-baseline">
+      <span
+        className={`w-12 flex-shrink-0 text-sm font-bold font-mono tabular-nums ${
+          run.brokenBy ? "text-white/50" : "text-white"
+        }`}
+      >
+        {run.length}d
+      </span>
+      <span className="w-48 flex-shrink-0 text-white/40 text-xs font-mono">
+        {run.start === run.end ? run.start : `${run.start} → ${run.end}`}
+        {isLongest && (
+          <span className="block text-[8px] tracking-widest">BEST</span>
+        )}
+      </span>
+      <span
+        className={`flex-1 text-[10px] tracking-widest uppercase ${
+          run.brokenBy ? "text-terminal-red/70" : "text-white/50"
+        }`}
+      >
+        {run.brokenBy
+          ? `BROKEN ${run.brokenBy.day} — ${run.brokenBy.reason}`
+          : "ALIVE"}
+      </span>
     </div>
   );
 }
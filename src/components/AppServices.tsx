@@ -0,0 +1,27 @@
+/**
+ * AppServices.tsx
+ *
+ * Renders nothing; mounts the app-wide background work once, in the root
+ * layout, so it keeps running across client-side navigation:
+ *   - Cross-tab sync (store + running pomodoro)
+ *   - Daily reset (runs on mount + schedules future resets)
+ *   - Task deadlines (records misses)
+ *
+ * The last two run in the leader tab only (see lib/tabSync.ts). The
+ * leader lock is held until the tab closes, so they must not unmount
+ * while the tab lives on — a page leaving them behind would stop them for
+ * every tab.
+ */
+
+"use client";
+
+import { useDailyReset } from "@/hooks/useDailyReset";
+import { useTabSync } from "@/hooks/useTabSync";
+import { useDeadlineWatch } from "@/hooks/useDeadlineWatch";
+
+export function AppServices() {
+  useTabSync();
+  useDailyReset();
+  useDeadlineWatch();
+  return null;
+}
@@ -0,0 +1,218 @@
+/**
+ * BackupPanel.tsx
+ *
+ * Full-state backup and restore.
+ *   - EXPORT BACKUP downloads every persisted field as versioned JSON
+ *   - RESTORE reads a backup file, validates it, and shows a preview of
+ *     what REPLACE or MERGE would change before anything is written.
+ *     MERGE is the multi-device path: another device's export is folded
+ *     into local history (see mergeUtils).
+ *
+ * Parsing/merging lives in backupUtils; this component only holds the
+ * pending file and chosen mode in local state.
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { pickPersisted, useGrindStore } from "@/store/useGrindStore";
+import {
+  BackupFile,
+  RestoreMode,
+  createBackup,
+  downloadBackup,
+  parseBackup,
+  previewRestore,
+  resolveRestore,
+} from "@/lib/backupUtils";
+import { Download, Upload } from "lucide-react";
+
+export function BackupPanel() {
+  const restoreState = useGrindStore((s) => s.restoreState);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [pending, setPending] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [restored, setRestored] = useState(false);
+
+  function handleExport() {
+    downloadBackup(createBackup(useGrindStore.getState()));
+  }
+
+  async function handleFile(file: File) {
+    setRestored(false);
+    try {
+      const result = parseBackup(await file.text());
+      if (result.ok) {
+        setPending(result.backup);
+        setErrors([]);
+      } else {
+        setPending(null);
+        setErrors(result.errors);
+      }
+    } catch (err) {
+      // Unreadable file, or a parse step that threw
+      setPending(null);
+      setErrors([err instanceof Error ? err.message : String(err)]);
+    }
+  }
+
+  function handleConfirm() {
+    if (!pending) return;
+    const current = pickPersisted(useGrindStore.getState());
+    restoreState(resolveRestore(current, pending.state, mode));
+    setPending(null);
+    setRestored(true);
+    setTimeout(() => setRestored(false), 3000);
+  }
+
+  function handleCancel() {
+    setPending(null);
+    setErrors([]);
+  }
+
+  const preview = pending
+    ? previewRestore(pickPersisted(useGrindStore.getState()), pending.state, mode)
+    : [];
+
+  return (
+    <div className="p-4 space-y-3">
+      <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase">
+        BACKUP &amp; RESTORE
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          className="
+            flex-1 flex items-center justify-center gap-2
+            border border-white/30 py-2 px-3
+            text-white/50 text-[10px] font-mono tracking-widest uppercase
+            hover:border-white hover:text-white
+            transition-colors duration-75 cursor-pointer
+          "
+          aria-label="Download a full JSON backup of all history and settings"
+        >
+          <Download size={12} />
+          EXPORT BACKUP
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="
+            flex-1 flex items-center justify-center gap-2
+            border border-white/30 py-2 px-3
+            text-white/50 text-[10px] font-mono tracking-widest uppercase
+            hover:border-white hover:text-white
+            transition-colors duration-75 cursor-pointer
+          "
+          aria-label="Restore from a JSON backup file"
+        >
+          <Upload size={12} />
+          {restored ? "RESTORED" : "RESTORE"}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="border border-terminal-red/40 p-3 space-y-1">
+          <p className="text-terminal-red text-[10px] tracking-widest uppercase font-bold">
+            BACKUP REJECTED
+          </p>
+          {errors.slice(0, 5).map((err) => (
+            <p key={err} className="text-terminal-red/60 text-[10px] tracking-wide">
+              {err}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {pending && (
+        <div className="border border-white/20 p-3 space-y-3">
+          <p className="text-white/40 text-[10px] tracking-widest uppercase">
+            BACKUP FROM {pending.exportedAt.slice(0, 10)}
+          </p>
+
+          {/* Mode selector */}
+          <div className="flex gap-2">
+            {(["merge", "replace"] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`
+                  flex-1 py-2 border text-[10px] tracking-widest uppercase font-mono
+                  transition-colors cursor-pointer
+                  ${mode === m
+                    ? "border-white bg-white text-black"
+                    : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                  }
+                `}
+                aria-pressed={mode === m}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-white/25 text-[10px] tracking-wide">
+            {mode === "merge"
+              ? "Union of both devices' history. Conflicting days keep the more complete record; streak is recomputed. Tasks only the backup has arrive hidden."
+              : "Local state is discarded and replaced by the backup."}
+          </p>
+
+          {/* Preview table */}
+          <div className="space-y-1">
+            {preview.map((row) => (
+              <div
+                key={row.label}
+                className="flex items-center justify-between text-[10px] font-mono tracking-widest"
+              >
+                <span className="text-white/30 uppercase">{row.label}</span>
+                <span
+                  className={
+                    row.current === row.result ? "text-white/30" : "text-white"
+                  }
+                >
+                  {row.current} → {row.result}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleConfirm}
+              className="
+                flex-1 py-2 border border-white
+                text-white text-[10px] tracking-widest uppercase font-mono font-bold
+                hover:bg-white hover:text-black transition-colors cursor-pointer
+              "
+            >
+              CONFIRM {mode}
+            </button>
+            <button
+              onClick={handleCancel}
+              className="
+                px-4 py-2 border border-white/20
+                text-white/40 text-[10px] tracking-widest uppercase font-mono
+                hover:border-white/60 transition-colors cursor-pointer
+              "
+            >
+              CANCEL
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
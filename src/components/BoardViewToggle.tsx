@@ -0,0 +1,55 @@
+/**
+ * BoardViewToggle.tsx
+ *
+ * Switches the dashboard between one panel per category and a single
+ * run sheet listing every task in protocol order. The choice is persisted.
+ */
+
+"use client";
+
+import { DashboardView, useGrindStore } from "@/store/useGrindStore";
+
+const VIEWS: Array<{ view: DashboardView; label: string }> = [
+  { view: "panels", label: "PANELS" },
+  { view: "runSheet", label: "RUN SHEET" },
+];
+
+export function BoardViewToggle() {
+  const dashboardView = useGrindStore((s) => s.dashboardView);
+  const setDashboardView = useGrindStore((s) => s.setDashboardView);
+
+  return (
+    <div
+      className="flex items-center justify-between px-3 py-2"
+      role="radiogroup"
+      aria-label="Board layout"
+    >
+      <span className="text-white/30 text-[10px] tracking-[0.4em] uppercase">
+        BOARD
+      </span>
+      <div className="flex">
+        {VIEWS.map(({ view, label }) => {
+          const active = dashboardView === view;
+          return (
+            <button
+              key={view}
+              onClick={() => setDashboardView(view)}
+              className={`
+                px-3 py-1 border text-[10px] tracking-widest uppercase font-mono
+                transition-colors cursor-pointer -ml-px first:ml-0
+                ${active
+                  ? "border-white bg-white text-black"
+                  : "border-white/20 bg-black text-white/40 hover:text-white"
+                }
+              `}
+              role="radio"
+              aria-checked={active}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
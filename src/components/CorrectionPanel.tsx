@@ -0,0 +1,91 @@
+/**
+ * CorrectionPanel.tsx
+ *
+ * Shown only while the correction window is open: for a few hours after the
+ * day boundary, the day that just closed can still be amended (see
+ * lib/correctionUtils.ts). Lists that day's tasks as archived; toggling one
+ * recounts the day and re-judges its streak verdict on the spot.
+ *
+ * Every toggle is an amendment in the audit trail — the review page shows
+ * the day as AMENDED.
+ */
+
+"use client";
+
+import { useGrindStore } from "@/store/useGrindStore";
+import { correctionTarget } from "@/lib/correctionUtils";
+import { VERDICT_LABELS } from "@/lib/streakUtils";
+import { useDayMinute } from "@/hooks/useDayMinute";
+
+export function CorrectionPanel() {
+  const correctionWindowHours = useGrindStore((s) => s.correctionWindowHours);
+  const correctableDay = useGrindStore((s) => s.correctableDay);
+  const lastResetDisciplineDay = useGrindStore(
+    (s) => s.lastResetDisciplineDay
+  );
+  const dayHistory = useGrindStore((s) => s.dayHistory);
+  const amendClosedDay = useGrindStore((s) => s.amendClosedDay);
+  // Re-evaluated every 30s so the panel closes with the window
+  const minute = useDayMinute();
+
+  if (minute === null) return null;
+  const day = correctionTarget({
+    correctionWindowHours,
+    correctableDay,
+    lastResetDisciplineDay,
+    dayHistory,
+  });
+  if (!day) return null;
+
+  const record = dayHistory[day];
+  const results = (record.taskResults ?? []).filter((r) => !r.quota);
+  const minutesLeft = correctionWindowHours * 60 - minute;
+
+  return (
+    <div className="border-b border-white p-5 space-y-3">
+      <div className="flex items-baseline justify-between">
+        <p className="text-white text-xs tracking-[0.3em] uppercase font-bold">
+          CORRECT {day}
+        </p>
+        <p className="text-white/40 text-[10px] tracking-widest font-mono tabular-nums">
+          {Math.floor(minutesLeft / 60)}H {String(minutesLeft % 60).padStart(2, "0")}M LEFT
+        </p>
+      </div>
+
+      <ul className="border border-white/20 divide-y divide-white/10">
+        {results.map((result) => (
+          <li key={result.id}>
+            <button
+              onClick={() => amendClosedDay(result.id, !result.done)}
+              className={`
+                w-full flex items-center gap-3 px-3 py-2 text-left
+                text-xs tracking-widest uppercase font-mono cursor-pointer
+                ${result.done ? "text-white" : "text-white/50 hover:text-white"}
+              `}
+              aria-pressed={result.done}
+              aria-label={`${result.label} — ${result.done ? "done" : "not done"}`}
+            >
+              <span className="w-3 h-3 border border-white/40 flex items-center justify-center text-[8px]">
+                {result.done ? "✓" : ""}
+              </span>
+              <span className="flex-1">{result.label}</span>
+              {result.amended && (
+                <span className="text-white/40 text-[9px]">AMENDED</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-white/40 text-[10px] tracking-widest uppercase">
+        {record.tasksCompleted}/{record.totalTasks} TASKS
+        {record.verdict &&
+          ` · STREAK: ${VERDICT_LABELS[record.verdict.kind]} — ${record.verdict.reason}`}
+      </p>
+      <p className="text-white/25 text-[10px] tracking-wide">
+        Forgot to tick something before the reset? Fix it here — every change
+        is kept in the audit trail.
+      </p>
+    </div>
+  );
+}
@@ -10,7 +10,6 @@
 import { useState } from "react";
 import { useGrindStore } from "@/store/useGrindStore";
 import { generateDailyReport, downloadReport } from "@/lib/exportUtils";
-import { getDisciplineDay } from "@/lib/timeUtils";
 import { Download } from "lucide-react";
 
 export function ExportButton() {
@@ -21,9 +20,8 @@ export function ExportButton() {
 
   function handleExport() {
     const snap = state();
-    const disciplineDay = getDisciplineDay();
     const report = generateDailyReport(snap);
-    downloadReport(report, disciplineDay);
+    downloadReport(report, snap.lastResetDisciplineDay);
     setExported(true);
     setTimeout(() => setExported(false), 3000);
   }
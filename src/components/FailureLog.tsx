@@ -11,11 +11,12 @@
 "use client";
 
 import { useGrindStore } from "@/store/useGrindStore";
-import { getDisciplineDay, formatLocalTime } from "@/lib/timeUtils";
+import { formatLocalTime } from "@/lib/timeUtils";
 
 export function FailureLog() {
   const failureHistory = useGrindStore((s) => s.failureHistory);
-  const disciplineDay = getDisciplineDay();
+  // The day on the board — failures are stamped with it (see createEvent)
+  const disciplineDay = useGrindStore((s) => s.lastResetDisciplineDay);
 
   const todayFailures = failureHistory.filter(
     (f) => f.disciplineDay === disciplineDay
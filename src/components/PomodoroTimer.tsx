@@ -5,8 +5,25 @@
  *
  * States:
  *   idle       → "▶ START {duration}" button visible
- *   running    → live countdown + fill bar + "■ STOP" button
- *   done       → auto-checks task, reverts to idle
+ *   running    → live countdown + fill bar + "❚❚ PAUSE" / "■ STOP" buttons
+ *   paused     → frozen countdown + "▶ RESUME"; the time left is kept
+ *   done       → store.finishPomodoro: counts the interval, checks the task
+ *                once it has all the intervals it needs, starts the break
+ *   break      → dashed, dimmed countdown + "SKIP" button on the same row
+ *                (still shown after the interval completed the task); can be
+ *                paused too
+ *
+ * The timer lives in the persisted store, so after a reload the countdown
+ * picks up where it was (a timer that ran out meanwhile was finished on
+ * load — see store.settlePomodoro).
+ *
+ * The cycle position (intervals since the last long break) and, for tasks
+ * needing several intervals, the intervals done so far are shown alongside
+ * (see lib/pomodoroUtils.ts).
+ *
+ * Time-budget tasks start a session for whatever is left of the budget
+ * (at least a minute); stopping early still counts, so shorter sessions add
+ * up until the budget is met.
  *
  * When `enforcePomodoro` is true (set in TaskEditor/settings):
  *   - The task checkbox in TaskRow is disabled
@@ -19,27 +36,42 @@
 
 import { useEffect, useRef, useState } from "react";
 import { useGrindStore } from "@/store/useGrindStore";
+import { BudgetStatus, phaseLabel, timerMsLeft } from "@/lib/pomodoroUtils";
 
 interface PomodoroTimerProps {
   taskId: string;
   pomoDurationMinutes: number;
   isCompleted: boolean;
-  /** Called when timer reaches zero — should check off the task */
-  onComplete: () => void;
+  /** Work intervals finished today / needed to complete the task */
+  intervalsDone: number;
+  intervalsNeeded: number;
+  /** Time-budget tasks: focus today against the budget */
+  budget: BudgetStatus | null;
 }
 
 export function PomodoroTimer({
   taskId,
   pomoDurationMinutes,
   isCompleted,
-  onComplete,
+  intervalsDone,
+  intervalsNeeded,
+  budget,
 }: PomodoroTimerProps) {
   const activePomodoro = useGrindStore((s) => s.activePomodoro);
   const startPomodoro = useGrindStore((s) => s.startPomodoro);
   const stopPomodoro = useGrindStore((s) => s.stopPomodoro);
+  const finishPomodoro = useGrindStore((s) => s.finishPomodoro);
+  const pausePomodoro = useGrindStore((s) => s.pausePomodoro);
+  const resumePomodoro = useGrindStore((s) => s.resumePomodoro);
+  const pomodoroCycle = useGrindStore((s) => s.pomodoroCycle);
+  const longBreakEvery = useGrindStore(
+    (s) => s.pomodoroSettings.longBreakEvery
+  );
 
   const isThisTaskActive =
     activePomodoro !== null && activePomodoro.taskId === taskId;
+  const isBreak = isThisTaskActive && activePomodoro.phase !== "work";
+  const isPaused = isThisTaskActive && activePomodoro.pausedAt !== null;
 
   // Local ms remaining — drives the display. Synced from store endTime.
   const [msRemaining, setMsRemaining] = useState<number>(0);
@@ -55,17 +87,23 @@ export function PomodoroTimer({
       return;
     }
 
+    // Paused — show the frozen time left, nothing to count down
+    if (activePomodoro.pausedAt !== null) {
+      setMsRemaining(timerMsLeft(activePomodoro));
+      return;
+    }
+
     function tick() {
       if (!activePomodoro) return;
-      const remaining = activePomodoro.endTime - Date.now();
+      const remaining = timerMsLeft(activePomodoro);
 
       if (remaining <= 0) {
-        // Timer done — complete task BEFORE clearing pomodoro (store enforcePomodoro check order)
+        // Timer done — the store sets (not toggles) completion, so a second
+        // tab reaching zero at the same moment can't un-check the task
         clearInterval(intervalRef.current!);
         intervalRef.current = null;
         setMsRemaining(0);
-        onComplete();
-        stopPomodoro();
+        finishPomodoro();
         return;
       }
 
@@ -79,10 +117,29 @@ export function PomodoroTimer({
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isThisTaskActive, activePomodoro?.taskId]);
+  }, [
+    isThisTaskActive,
+    activePomodoro?.taskId,
+    activePomodoro?.endTime,
+    activePomodoro?.pausedAt,
+  ]);
+
+  // Don't render timer on completed tasks — unless their break is running
+  if (isCompleted && !isBreak) return null;
+
+  // Where the cycle and this task's intervals stand, e.g. "CYCLE 2/4 · 1/3"
+  const cycleLabel = [
+    longBreakEvery > 0 ? `CYCLE ${pomodoroCycle}/${longBreakEvery}` : null,
+    intervalsNeeded > 1 ? `${intervalsDone}/${intervalsNeeded} INTERVALS` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
-  // Don't render timer on completed tasks
-  if (isCompleted) return null;
+  // A budget task's session covers what is left of its budget
+  const startMs = budget
+    ? Math.max(60_000, budget.requiredMs - budget.focusedMs)
+    : pomoDurationMinutes * 60 * 1000;
+  const startMinutes = Math.ceil(startMs / 60_000);
 
   // Some OTHER task is running — show a locked indicator
   const otherTaskRunning =
@@ -91,30 +148,42 @@ export function PomodoroTimer({
   // ── Idle state ──────────────────────────────────────────────────────────────
   if (!isThisTaskActive) {
     return (
-      <button
-        onClick={() => {
-          if (otherTaskRunning) return;
-          const totalMs = pomoDurationMinutes * 60 * 1000;
-          startPomodoro(taskId, Date.now() + totalMs, totalMs);
-        }}
-        disabled={otherTaskRunning}
-        className={`
-          mt-2 flex items-center gap-2
-          border border-white/30 px-3 py-1.5
-          text-xs tracking-widest uppercase font-mono
-          transition-colors duration-75
-          ${otherTaskRunning
-            ? "text-white/20 border-white/10 cursor-not-allowed"
-            : "text-white/50 hover:text-white hover:border-white cursor-pointer"
-          }
-        `}
-        aria-label={`Start ${pomoDurationMinutes}-minute pomodoro for this task`}
-      >
-        <span>▶</span>
-        <span>
-          {otherTaskRunning ? "TIMER RUNNING" : `START ${pomoDurationMinutes}m`}
-        </span>
-      </button>
+      <div className="mt-2 flex items-center gap-3">
+        <button
+          onClick={() => {
+            if (otherTaskRunning) return;
+            startPomodoro(taskId, Date.now() + startMs, startMs);
+          }}
+          disabled={otherTaskRunning}
+          className={`
+            flex items-center gap-2
+            border border-white/30 px-3 py-1.5
+            text-xs tracking-widest uppercase font-mono
+            transition-colors duration-75
+            ${otherTaskRunning
+              ? "text-white/20 border-white/10 cursor-not-allowed"
+              : "text-white/50 hover:text-white hover:border-white cursor-pointer"
+            }
+          `}
+          aria-label={`Start ${startMinutes}-minute pomodoro for this task`}
+        >
+          <span>▶</span>
+          <span>
+            {!otherTaskRunning
+              ? `START ${startMinutes}m`
+              : activePomodoro?.pausedAt != null
+              ? "TIMER PAUSED"
+              : activePomodoro?.phase === "work"
+              ? "TIMER RUNNING"
+              : "ON BREAK"}
+          </span>
+        </button>
+        {cycleLabel && (
+          <span className="text-white/30 text-[10px] tracking-widest font-mono uppercase">
+            {cycleLabel}
+          </span>
+        )}
+      </div>
     );
   }
 
@@ -128,36 +197,134 @@ export function PomodoroTimer({
   const minutesDisplay = String(Math.floor(secondsLeft / 60)).padStart(2, "0");
   const secondsDisplay = String(secondsLeft % 60).padStart(2, "0");
 
+  // ── Break state ─────────────────────────────────────────────────────────────
+  if (isBreak) {
+    const breakButtonClass = `
+      border border-dashed px-3 py-1
+      text-xs tracking-widest uppercase font-mono
+      transition-colors duration-75 cursor-pointer
+      ${
+        isCompleted
+          ? "border-black/40 text-black/60 hover:text-black hover:border-black"
+          : "border-white/30 text-white/50 hover:text-white hover:border-white"
+      }
+    `;
+    return (
+      <div
+        className={`mt-2 space-y-1.5 border border-dashed p-2 ${
+          isCompleted ? "border-black/40" : "border-white/30"
+        }`}
+      >
+        {/* Draining bar — a break empties instead of filling */}
+        <div
+          className={`h-1 w-full relative overflow-hidden ${
+            isCompleted ? "bg-black/10" : "bg-white/10"
+          }`}
+        >
+          <div
+            className={`absolute right-0 top-0 h-full transition-all duration-500 ${
+              isCompleted ? "bg-black/40" : "bg-white/40"
+            }`}
+            style={{ width: `${100 - fillPercent}%` }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span
+            className={`text-xs font-mono tabular-nums tracking-widest ${
+              isCompleted ? "text-black/60" : "text-white/60"
+            }`}
+          >
+            {phaseLabel(activePomodoro.phase)} {minutesDisplay}:{secondsDisplay}
+            {isPaused && " · PAUSED"}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={isPaused ? resumePomodoro : pausePomodoro}
+              className={breakButtonClass}
+              aria-label={isPaused ? "Resume break" : "Pause break"}
+            >
+              {isPaused ? "▶ RESUME" : "❚❚ PAUSE"}
+            </button>
+            <button
+              onClick={() => {
+                stopPomodoro();
+                setMsRemaining(0);
+              }}
+              className={breakButtonClass}
+              aria-label="Skip break"
+            >
+              SKIP ▸▸
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // ── Work state ──────────────────────────────────────────────────────────────
   return (
     <div className="mt-2 space-y-1.5">
       {/* Progress fill bar */}
       <div className="h-1 bg-white/10 w-full relative overflow-hidden">
         <div
-          className="absolute left-0 top-0 h-full bg-white transition-all duration-500"
+          className={`absolute left-0 top-0 h-full transition-all duration-500 ${
+            isPaused ? "bg-white/40" : "bg-white"
+          }`}
           style={{ width: `${fillPercent}%` }}
         />
       </div>
 
       {/* Controls row */}
       <div className="flex items-center justify-between">
-        <span className="text-white text-sm font-mono font-bold tabular-nums tracking-widest">
+        <span
+          className={`text-sm font-mono font-bold tabular-nums tracking-widest ${
+            isPaused ? "text-white/50" : "text-white"
+          }`}
+        >
           {minutesDisplay}:{secondsDisplay}
+          {isPaused && (
+            <span className="ml-3 text-white/60 text-[10px] font-normal">
+              PAUSED
+            </span>
+          )}
+          {cycleLabel && (
+            <span className="ml-3 text-white/30 text-[10px] font-normal">
+              {cycleLabel}
+            </span>
+          )}
         </span>
-        <button
-          onClick={() => {
-            stopPomodoro();
-            setMsRemaining(0);
-          }}
-          className="
-            border border-white/40 px-3 py-1
-            text-white/60 text-xs tracking-widest uppercase font-mono
-            hover:border-terminal-red hover:text-terminal-red
-            transition-colors duration-75 cursor-pointer
-          "
-          aria-label="Stop pomodoro timer"
-        >
-          ■ STOP
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={isPaused ? resumePomodoro : pausePomodoro}
+            className="
+              border border-white/40 px-3 py-1
+              text-white/60 text-xs tracking-widest uppercase font-mono
+              hover:border-white hover:text-white
+              transition-colors duration-75 cursor-pointer
+            "
+            aria-label={
+              isPaused ? "Resume pomodoro timer" : "Pause pomodoro timer"
+            }
+          >
+            {isPaused ? "▶ RESUME" : "❚❚ PAUSE"}
+          </button>
+          <button
+            onClick={() => {
+              stopPomodoro();
+              setMsRemaining(0);
+            }}
+            className="
+              border border-white/40 px-3 py-1
+              text-white/60 text-xs tracking-widest uppercase font-mono
+              hover:border-terminal-red hover:text-terminal-red
+              transition-colors duration-75 cursor-pointer
+            "
+            aria-label="Stop pomodoro timer"
+          >
+            ■ STOP
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -3,6 +3,8 @@
  *
  * Horizontal full-width progress bar representing today's task completion.
  * Fills left-to-right from 0–100%. All-white fill = day complete.
+ * Quantitative and checklist tasks contribute partial progress (12 of 20
+ * pages = 60% of that task), both to the fill and to their segment tick.
  *
  * Uses a raw <div> fill (no CSS gradient, no rounding) for the brutalist
  * hard-edge aesthetic.
@@ -10,25 +12,31 @@
 
 "use client";
 
-import { TASK_DEFINITIONS, useGrindStore } from "@/store/useGrindStore";
+import {
+  boardTasks,
+  taskFraction,
+  useGrindStore,
+} from "@/store/useGrindStore";
 
 export function ProgressBar() {
   const progressPercent = useGrindStore((s) => s.progressPercent());
-  const tasks = useGrindStore((s) => s.tasks);
-  const customTasks = useGrindStore((s) => s.customTasks);
-  const customTaskCompletions = useGrindStore((s) => s.customTaskCompletions);
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const completions = useGrindStore((s) => s.completions);
+  const progress = useGrindStore((s) => s.progress);
+  const checkedItems = useGrindStore((s) => s.checkedItems);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
   const isDayComplete = useGrindStore((s) => s.isDayComplete());
 
-  const builtinDone = TASK_DEFINITIONS.filter((t) => tasks[t.id]).length;
-  const customDone = customTasks.filter((t) => customTaskCompletions[t.id]).length;
-  const completedCount = builtinDone + customDone;
-  const total = TASK_DEFINITIONS.length + customTasks.length;
+  const board = boardTasks(taskCatalog, boardDay);
+  const completedCount = board.filter((t) => completions[t.id]).length;
+  const total = board.length;
 
-  // Combined task IDs + completion for segment ticks
-  const allSegments = [
-    ...TASK_DEFINITIONS.map((t) => ({ id: t.id, done: tasks[t.id], label: t.label })),
-    ...customTasks.map((t) => ({ id: t.id, done: customTaskCompletions[t.id] ?? false, label: t.label })),
-  ];
+  // Task IDs + completion for segment ticks, in board order
+  const allSegments = board.map((t) => ({
+    id: t.id,
+    fraction: taskFraction(t, { completions, progress, checkedItems }),
+    label: t.label,
+  }));
 
   return (
     <div className="space-y-2">
@@ -66,15 +74,20 @@ export function ProgressBar() {
         />
       </div>
 
-      {/* Segment ticks — one per task (built-in + custom) */}
+      {/* Segment ticks — one per task on the board */}
       <div className="flex gap-1">
         {allSegments.map((seg) => (
           <div
             key={seg.id}
-            className={`flex-1 h-1 ${seg.done ? "bg-white" : "bg-white/15"}`}
+            className="flex-1 h-1 bg-white/15"
             title={seg.label}
             aria-hidden="true"
-          />
+          >
+            <div
+              className="h-full bg-white"
+              style={{ width: `${seg.fraction * 100}%` }}
+            />
+          </div>
         ))}
       </div>
     </div>
@@ -0,0 +1,64 @@
+/**
+ * RecoveryBanner.tsx
+ *
+ * Shown when the persisted state failed migration or validation on load.
+ * The store has already fallen back to defaults; this banner tells the user
+ * where the rejected payload was copied so nothing is silently lost.
+ *
+ * Also shown when storage is degraded (IndexedDB unavailable, a write
+ * failed), so changes that may not have been saved don't go unnoticed.
+ *
+ * Fixed above every other layer (including LockoutOverlay) until dismissed.
+ */
+
+"use client";
+
+import { useGrindStore } from "@/store/useGrindStore";
+
+export function RecoveryBanner() {
+  const storageRecovery = useGrindStore((s) => s.storageRecovery);
+  const dismiss = useGrindStore((s) => s.dismissStorageRecovery);
+
+  if (!storageRecovery) return null;
+  const rejected = storageRecovery.kind === "rejected";
+
+  return (
+    <div
+      className="fixed top-0 inset-x-0 z-[60] border-b-2 border-terminal-red bg-black px-6 py-4 font-mono"
+      role="alert"
+    >
+      <div className="max-w-4xl mx-auto flex items-start justify-between gap-6">
+        <div className="space-y-1">
+          <p className="text-terminal-red text-xs font-bold tracking-[0.3em] uppercase">
+            {rejected
+              ? "STORED STATE REJECTED — DEFAULTS LOADED"
+              : "BROWSER STORAGE DEGRADED"}
+          </p>
+          <p className="text-white/60 text-[10px] tracking-wide">
+            {!rejected
+              ? "Changes may not be saved as expected — export a backup to be safe."
+              : storageRecovery.backupKey
+              ? `Original data copied to localStorage key "${storageRecovery.backupKey}".`
+              : "Original data could not be backed up (storage full or empty)."}
+          </p>
+          <ul className="text-white/30 text-[10px] tracking-wide list-disc list-inside">
+            {storageRecovery.errors.slice(0, 5).map((err) => (
+              <li key={err}>{err}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={dismiss}
+          className="
+            flex-shrink-0 border border-white/40 px-3 py-1
+            text-white/60 text-xs tracking-widest uppercase
+            hover:border-white hover:text-white transition-colors cursor-pointer
+          "
+          aria-label="Dismiss storage recovery notice"
+        >
+          DISMISS
+        </button>
+      </div>
+    </div>
+  );
+}
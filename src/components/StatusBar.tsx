@@ -5,20 +5,29 @@
  *   - Current local time (live)
  *   - Current discipline day
  *   - Protocol start timestamp
+ *   - Pomodoro focus time on the board day
  *   - Day completion status
  */
 
 "use client";
 
+import { useMemo } from "react";
 import { useGrindStore } from "@/store/useGrindStore";
 import { useLiveClock } from "@/hooks/useLiveClock";
 import { getDisciplineDay, formatLocalTime } from "@/lib/timeUtils";
+import { focusMinutes, formatFocus } from "@/lib/pomodoroUtils";
 
 export function StatusBar() {
   const clock = useLiveClock();
   const protocolStartTime = useGrindStore((s) => s.protocolStartTime);
   const isDayComplete = useGrindStore((s) => s.isDayComplete());
+  const pomodoroSessions = useGrindStore((s) => s.pomodoroSessions);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
   const disciplineDay = getDisciplineDay();
+  const focus = useMemo(
+    () => focusMinutes(pomodoroSessions, boardDay),
+    [pomodoroSessions, boardDay]
+  );
 
   return (
     <header className="border-b border-white">
@@ -49,6 +58,7 @@ export function StatusBar() {
             label="PROTOCOL INITIATED"
             value={formatLocalTime(protocolStartTime)}
           />
+          <MetaItem label="FOCUS" value={formatFocus(focus)} />
         </div>
 
         <div className={isDayComplete ? "text-white" : "text-white/30"}>
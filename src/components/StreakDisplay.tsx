@@ -3,24 +3,58 @@
  *
  * Shows the current consecutive-day streak as a large numerical display.
  *
- * Streak semantics:
- *   - Increments at 04:00 if ALL tasks were completed the previous discipline day
- *   - Resets to 0 if any task was missed
- *   - Failure events (comfort button) do NOT affect streak
+ * Streak semantics follow the user's streak policy (see lib/streakUtils.ts):
+ *   - At each reset the closed day is judged: counted (+1), held by a
+ *     planned rest day or a freeze token, or broken (back to 0)
+ *   - By default a day counts only if ALL tasks were completed, and failure
+ *     events (comfort button) do NOT affect the streak
+ *
+ * Below the number: the best-ever run, banked freeze tokens, yesterday's
+ * verdict with its reason, and the policy in force. Current and best are
+ * derived from the day verdicts in `dayHistory`; if the stored counter
+ * disagrees, a RECOMPUTE button rebuilds it from history.
  */
 
 "use client";
 
+import { useMemo } from "react";
 import { useGrindStore } from "@/store/useGrindStore";
-import { Flame } from "lucide-react";
+import {
+  dayVerdicts,
+  describePolicy,
+  lastVerdict,
+  streakRuns,
+  streakSummary,
+  VERDICT_LABELS,
+} from "@/lib/streakUtils";
+import { Flame, Snowflake } from "lucide-react";
 
 export function StreakDisplay() {
   const streak = useGrindStore((s) => s.streak);
   const isDayComplete = useGrindStore((s) => s.isDayComplete());
+  const progressPercent = useGrindStore((s) => s.progressPercent());
+  const streakPolicy = useGrindStore((s) => s.streakPolicy);
+  const freezeTokens = useGrindStore((s) => s.freezeTokens);
+  const dayHistory = useGrindStore((s) => s.dayHistory);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
+  const recomputeStreak = useGrindStore((s) => s.recomputeStreak);
+
+  const derived = useMemo(
+    () =>
+      streakSummary(
+        streakRuns(dayVerdicts(dayHistory, boardDay, streakPolicy))
+      ),
+    [dayHistory, boardDay, streakPolicy]
+  );
+  const best = Math.max(derived.longest, streak);
+  const outOfSync = derived.current !== streak;
 
   // Determine streak visual state
   const isLive = streak > 0;
-  const isTodayComplete = isDayComplete;
+  // Today already meets the policy's threshold (judged for real at reset)
+  const isTodayComplete =
+    isDayComplete || progressPercent >= streakPolicy.minPercent;
+  const verdict = lastVerdict(dayHistory, boardDay);
 
   return (
     <div className="border border-white p-6 flex flex-col items-center gap-2">
@@ -49,19 +83,59 @@ export function StreakDisplay() {
         </span>
       </div>
 
+      {/* Current vs best */}
+      <p className="text-white/40 text-[10px] tracking-widest uppercase font-mono">
+        BEST: {String(best).padStart(2, "0")}
+        {best > 0 && streak === best ? " — PERSONAL RECORD" : ""}
+      </p>
+
+      {outOfSync && (
+        <button
+          onClick={recomputeStreak}
+          className="text-terminal-red text-[10px] tracking-widest uppercase border border-terminal-red/50 px-2 py-0.5 hover:bg-terminal-red hover:text-black transition-colors"
+          title={`History says ${derived.current}; the counter says ${streak}`}
+        >
+          OUT OF SYNC WITH HISTORY — RECOMPUTE
+        </button>
+      )}
+
       {/* Status line */}
       <p
         className={`text-xs tracking-widest uppercase mt-1 ${
           isTodayComplete ? "text-white" : "text-white/30"
         }`}
       >
-        {isTodayComplete
+        {isDayComplete
           ? "TODAY: COMPLETE"
+          : isTodayComplete
+          ? `TODAY: COUNTS (${progressPercent}%)`
           : streak === 0
           ? "NO ACTIVE STREAK"
           : "TODAY: IN PROGRESS"}
       </p>
 
+      {/* Freeze tokens */}
+      {(freezeTokens > 0 || streakPolicy.freezeEvery > 0) && (
+        <p
+          className="flex items-center gap-1 text-white/50 text-[10px] tracking-widest uppercase font-mono"
+          title={
+            streakPolicy.freezeEvery > 0
+              ? `One freeze covers one missed day; earn one per ${streakPolicy.freezeEvery}-day run`
+              : "One freeze covers one missed day; earning is off"
+          }
+        >
+          <Snowflake size={10} aria-hidden="true" />
+          {freezeTokens} FREEZE{freezeTokens === 1 ? "" : "S"} BANKED
+        </p>
+      )}
+
+      {/* Why yesterday counted or didn't */}
+      {verdict && (
+        <p className="text-white/40 text-[10px] tracking-widest uppercase text-center">
+          YESTERDAY: {VERDICT_LABELS[verdict.kind]} — {verdict.reason}
+        </p>
+      )}
+
       {/* Motivational marker thresholds */}
       {streak > 0 && (
         <div className="flex gap-4 mt-2">
@@ -78,6 +152,11 @@ export function StreakDisplay() {
           ))}
         </div>
       )}
+
+      {/* Policy in force */}
+      <p className="mt-1 text-white/20 text-[9px] tracking-widest uppercase text-center">
+        {describePolicy(streakPolicy)}
+      </p>
     </div>
   );
 }
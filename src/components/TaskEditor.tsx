@@ -3,56 +3,280 @@
  *
  * Expandable panel for managing tasks and protocol settings.
  * Allows users to:
- *   - Add / remove custom tasks
- *   - Toggle task order enforcement
+ *   - Add, edit, hide, reorder and delete tasks in the catalog
+ *   - Give a task an optional numeric target (e.g. 20 PAGES) or an ordered
+ *     checklist of sub-items (one per line)
+ *   - Schedule a task: daily, on chosen weekdays, every N days, or within
+ *     a date range
+ *   - Make a task a weekly quota (N sessions per calendar or rolling week)
+ *     instead of a daily one
+ *   - Pick the tasks a task requires (cycles are refused)
+ *   - Give a task a time window: earliest start and/or deadline (HH:MM)
+ *   - Require several pomodoro work intervals before a task completes, or
+ *     make the timer a time budget that sessions of any length add up to
+ *   - Reorder by drag-and-drop, or from the keyboard on a row's grip handle
+ *     (↑/↓ one step, Home/End to the ends)
+ *   - Toggle prerequisite enforcement
  *   - Toggle pomodoro enforcement
+ *   - Toggle whether missed deadlines count as failures
+ *   - Set the streak policy (threshold, rest weekdays, freezes, failure limit)
+ *     and recompute the streak from history
+ *   - Set the day boundary (reset hour + home time zone) and how long after
+ *     it the previous day stays open for correction
+ *   - Set pomodoro break lengths and how often the long break comes
  *
- * Built-in tasks are view-only (cannot be deleted).
+ * The default tasks are ordinary catalog entries — they can be edited or
+ * deleted like any other. Hiding keeps a task (and its history) but takes
+ * it off the board. Catalog order is the protocol order the run-sheet view
+ * follows; ENFORCE PREREQUISITES locks by the `requires` graph instead. Every
+ * catalog change is immediate and can be reverted from the undo bar (Ctrl/⌘+Z).
  * Expanded/collapsed state is local (not persisted).
  */
 
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import {
-  TASK_DEFINITIONS,
-  CustomTask,
+  ChecklistItem,
+  Task,
   TaskCategory,
+  TaskInput,
+  TaskQuota,
+  StreakPolicy,
+  TaskSchedule,
   useGrindStore,
 } from "@/store/useGrindStore";
-import { Trash2, ChevronDown, ChevronUp, Plus } from "lucide-react";
+import {
+  formatResetHour,
+  getDisciplineDay,
+  timeOfDayOffset,
+} from "@/lib/timeUtils";
+import { deadlineOffset, describeWindow } from "@/lib/deadlineUtils";
+import { WEEKDAY_LABELS, describeSchedule } from "@/lib/scheduleUtils";
+import { findCycle } from "@/lib/taskGraph";
+import { CORRECTION_WINDOW_HOURS } from "@/lib/correctionUtils";
+import {
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  Plus,
+  Pencil,
+  Eye,
+  EyeOff,
+  GripVertical,
+  RotateCcw,
+} from "lucide-react";
 
 const CATEGORY_OPTIONS: TaskCategory[] = ["physical", "cognitive", "intellectual"];
 
-const BLANK_FORM = {
+const RESET_HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+const MAX_POMO_INTERVALS = 12;
+
+const SHORT_BREAK_MINUTES = [0, 3, 5, 10];
+const LONG_BREAK_MINUTES = [0, 10, 15, 20, 30];
+const LONG_BREAK_EVERY = [0, 2, 3, 4, 5, 6];
+
+/** IANA zones offered as home zone (just the device's where unsupported) */
+function listTimeZones(): string[] {
+  const device = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [device];
+}
+
+/**
+ * Form fields — the target, checklist and quota count are edited as raw
+ * text (blank = none; checklist = one sub-item per line)
+ */
+type TaskForm = Omit<TaskInput, "target" | "checklist" | "quota"> & {
+  targetAmount: string;
+  targetUnit: string;
+  checklistText: string;
+  quotaCount: string;
+  quotaPeriod: TaskQuota["period"];
+};
+
+const BLANK_FORM: TaskForm = {
   label: "",
-  category: "cognitive" as TaskCategory,
+  category: "cognitive",
   duration: "30m",
   description: "",
   pomoDurationMinutes: 30,
+  targetAmount: "",
+  targetUnit: "",
+  checklistText: "",
+  quotaCount: "",
+  quotaPeriod: "calendarWeek",
 };
 
+const TIMER_MODES: Array<{ timeBudget: boolean; label: string }> = [
+  { timeBudget: false, label: "INTERVALS" },
+  { timeBudget: true, label: "TIME BUDGET" },
+];
+
+const QUOTA_PERIODS: Array<{ period: TaskQuota["period"]; label: string }> = [
+  { period: "calendarWeek", label: "CALENDAR WEEK" },
+  { period: "rollingWeek", label: "ROLLING 7 DAYS" },
+];
+
+type ScheduleKind = "daily" | TaskSchedule["kind"];
+
+const SCHEDULE_KINDS: Array<{ kind: ScheduleKind; label: string }> = [
+  { kind: "daily", label: "DAILY" },
+  { kind: "weekdays", label: "WEEKDAYS" },
+  { kind: "interval", label: "EVERY N" },
+  { kind: "dateRange", label: "RANGE" },
+];
+
+/** A fresh rule of `kind`, starting today where a start is needed */
+function defaultSchedule(kind: ScheduleKind): TaskSchedule | undefined {
+  const today = getDisciplineDay();
+  switch (kind) {
+    case "daily":
+      return undefined;
+    case "weekdays":
+      return { kind, days: [1, 2, 3, 4, 5] };
+    case "interval":
+      return { kind, every: 2, startDay: today };
+    case "dateRange":
+      return { kind, from: today, to: today };
+  }
+}
+
+/** Why `schedule` can't be saved, or null if it can */
+function scheduleError(schedule: TaskSchedule | undefined): string | null {
+  if (!schedule) return null;
+  switch (schedule.kind) {
+    case "weekdays":
+      return schedule.days.length === 0 ? "Pick at least one weekday." : null;
+    case "interval":
+      return !Number.isInteger(schedule.every) || schedule.every < 1
+        ? "Interval must be a whole number of days."
+        : !schedule.startDay
+        ? "Interval needs a start date."
+        : null;
+    case "dateRange":
+      return !schedule.from || !schedule.to || schedule.from > schedule.to
+        ? "Date range must start on or before its end."
+        : null;
+  }
+}
+
+/**
+ * Turns checklist lines into items. Lines matching an existing item's
+ * label keep its id, so ticks already made today survive the edit.
+ */
+function parseChecklist(
+  text: string,
+  existing: ChecklistItem[] = []
+): ChecklistItem[] {
+  const stamp = Date.now().toString(36);
+  const unused = [...existing];
+  return text
+    .split("\n")
+    .map((line) => line.trim().toUpperCase())
+    .filter(Boolean)
+    .map((label, i) => {
+      const match = unused.findIndex((item) => item.label === label);
+      if (match !== -1) return unused.splice(match, 1)[0];
+      return { id: `item_${stamp}_${i}`, label };
+    });
+}
+
 export function TaskEditor() {
   const [isOpen, setIsOpen] = useState(false);
-  const [showAddForm, setShowAddForm] = useState(false);
-  const [form, setForm] = useState(BLANK_FORM);
+  const [showForm, setShowForm] = useState(false);
+  /** Task being edited; null while the form adds a new task */
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TaskForm>(BLANK_FORM);
   const [formError, setFormError] = useState("");
+  /** Task being dragged, and the row it would be dropped on */
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const gripRefs = useRef(new Map<string, HTMLButtonElement>());
 
-  const customTasks = useGrindStore((s) => s.customTasks);
-  const addCustomTask = useGrindStore((s) => s.addCustomTask);
-  const removeCustomTask = useGrindStore((s) => s.removeCustomTask);
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const addTask = useGrindStore((s) => s.addTask);
+  const updateTask = useGrindStore((s) => s.updateTask);
+  const setTaskHidden = useGrindStore((s) => s.setTaskHidden);
+  const moveTask = useGrindStore((s) => s.moveTask);
+  const removeTask = useGrindStore((s) => s.removeTask);
   const enforceTaskOrder = useGrindStore((s) => s.enforceTaskOrder);
   const enforcePomodoro = useGrindStore((s) => s.enforcePomodoro);
   const toggleEnforceTaskOrder = useGrindStore((s) => s.toggleEnforceTaskOrder);
   const toggleEnforcePomodoro = useGrindStore((s) => s.toggleEnforcePomodoro);
+  const deadlineFailures = useGrindStore((s) => s.deadlineFailures);
+  const toggleDeadlineFailures = useGrindStore((s) => s.toggleDeadlineFailures);
+  const resetHour = useGrindStore((s) => s.resetHour);
+  const timeZone = useGrindStore((s) => s.timeZone);
+  const setDayBoundary = useGrindStore((s) => s.setDayBoundary);
+  const streakPolicy = useGrindStore((s) => s.streakPolicy);
+  const setStreakPolicy = useGrindStore((s) => s.setStreakPolicy);
+  const recomputeStreak = useGrindStore((s) => s.recomputeStreak);
+  const correctionWindowHours = useGrindStore((s) => s.correctionWindowHours);
+  const setCorrectionWindow = useGrindStore((s) => s.setCorrectionWindow);
+  const pomodoroSettings = useGrindStore((s) => s.pomodoroSettings);
+  const setPomodoroSettings = useGrindStore((s) => s.setPomodoroSettings);
 
-  function handleRemove(id: string) {
-    if (window.confirm("Remove this task? Completion data will be lost.")) {
-      removeCustomTask(id);
-    }
+  /** Keyboard reorder; focus follows the moved row */
+  function handleGripKey(e: React.KeyboardEvent, id: string, index: number) {
+    const last = taskCatalog.length - 1;
+    const target =
+      e.key === "ArrowUp"
+        ? index - 1
+        : e.key === "ArrowDown"
+        ? index + 1
+        : e.key === "Home"
+        ? 0
+        : e.key === "End"
+        ? last
+        : null;
+    if (target === null) return;
+    e.preventDefault();
+    if (target < 0 || target > last || target === index) return;
+    moveTask(id, target);
+    // React re-inserts the moved row, which drops focus
+    requestAnimationFrame(() => gripRefs.current.get(id)?.focus());
+  }
+
+  function endDrag() {
+    setDragId(null);
+    setDropIndex(null);
   }
 
-  function handleAdd() {
+  function closeForm() {
+    setShowForm(false);
+    setEditingId(null);
+    setFormError("");
+    setForm(BLANK_FORM);
+  }
+
+  function openEdit(task: Task) {
+    setEditingId(task.id);
+    setForm({
+      label: task.label,
+      category: task.category,
+      duration: task.duration,
+      description: task.description,
+      pomoDurationMinutes: task.pomoDurationMinutes,
+      pomoIntervals: task.pomoIntervals,
+      timeBudget: task.timeBudget,
+      targetAmount: task.target ? String(task.target.amount) : "",
+      targetUnit: task.target?.unit ?? "",
+      checklistText: (task.checklist ?? []).map((i) => i.label).join("\n"),
+      schedule: task.schedule,
+      quotaCount: task.quota ? String(task.quota.count) : "",
+      quotaPeriod: task.quota?.period ?? "calendarWeek",
+      requires: task.requires,
+      earliestStart: task.earliestStart,
+      deadline: task.deadline,
+    });
+    setFormError("");
+    setShowForm(true);
+  }
+
+  function handleSubmit() {
     if (!form.label.trim()) {
       setFormError("Task name is required.");
       return;
@@ -61,16 +285,96 @@ export function TaskEditor() {
       setFormError("Timer must be 1–480 minutes.");
       return;
     }
-    addCustomTask({
+    // A time budget completes by total focus, not by interval count
+    const intervals = form.timeBudget ? 1 : form.pomoIntervals ?? 1;
+    if (intervals < 1 || intervals > MAX_POMO_INTERVALS) {
+      setFormError(`Intervals must be 1–${MAX_POMO_INTERVALS}.`);
+      return;
+    }
+    const amount = Number(form.targetAmount);
+    const hasTarget = form.targetAmount.trim() !== "";
+    if (hasTarget && !(Number.isFinite(amount) && amount > 0)) {
+      setFormError("Target must be a positive number.");
+      return;
+    }
+    const existing = taskCatalog.find((t) => t.id === editingId);
+    const checklist = parseChecklist(form.checklistText, existing?.checklist);
+    if (hasTarget && checklist.length > 0) {
+      setFormError("Use a target or a checklist, not both.");
+      return;
+    }
+    if (
+      form.earliestStart &&
+      form.deadline &&
+      timeOfDayOffset(form.earliestStart) >= deadlineOffset(form.deadline)
+    ) {
+      setFormError(
+        "Earliest start must come before the deadline — the day runs " +
+          `from ${formatResetHour(resetHour)}.`
+      );
+      return;
+    }
+    const invalidSchedule = scheduleError(form.schedule);
+    if (invalidSchedule) {
+      setFormError(invalidSchedule);
+      return;
+    }
+    const quotaCount = Number(form.quotaCount);
+    const hasQuota = form.quotaCount.trim() !== "";
+    // One session counts per day, so a week holds at most 7
+    if (
+      hasQuota &&
+      !(Number.isInteger(quotaCount) && quotaCount >= 1 && quotaCount <= 7)
+    ) {
+      setFormError("Weekly quota must be a whole number from 1 to 7.");
+      return;
+    }
+    if (hasQuota && form.schedule) {
+      setFormError("A weekly quota task can't also have a schedule.");
+      return;
+    }
+    if (hasQuota && (form.earliestStart || form.deadline)) {
+      setFormError("A weekly quota task can't have a time window.");
+      return;
+    }
+    const requires = form.requires ?? [];
+    // A new task can't close a cycle — nothing requires it yet
+    const cycle = editingId && findCycle(taskCatalog, editingId, requires);
+    if (cycle) {
+      const label = (id: string) =>
+        taskCatalog.find((t) => t.id === id)?.label ?? id;
+      setFormError(`Dependency cycle: ${cycle.map(label).join(" → ")}.`);
+      return;
+    }
+    const input: TaskInput = {
       label: form.label.trim().toUpperCase(),
       category: form.category,
       duration: `${form.pomoDurationMinutes}m`,
       description: form.description.trim(),
       pomoDurationMinutes: form.pomoDurationMinutes,
-    });
-    setForm(BLANK_FORM);
-    setFormError("");
-    setShowAddForm(false);
+      pomoIntervals: intervals > 1 ? intervals : undefined,
+      timeBudget: form.timeBudget || undefined,
+      // Explicit undefined so an edit can remove an existing target
+      target: hasTarget
+        ? { amount, unit: form.targetUnit.trim().toUpperCase() }
+        : undefined,
+      checklist: checklist.length > 0 ? checklist : undefined,
+      schedule: form.schedule,
+      quota: hasQuota
+        ? {
+            count: quotaCount,
+            period: form.quotaPeriod,
+            // Keep the original start so past weeks stay judged as before
+            since: existing?.quota?.since ?? getDisciplineDay(),
+          }
+        : undefined,
+      requires: requires.length > 0 ? requires : undefined,
+      earliestStart: form.earliestStart || undefined,
+      deadline: form.deadline || undefined,
+    };
+    if (editingId) updateTask(editingId, input);
+    else addTask(input);
+    closeForm();
   }
 
   return (
@@ -103,8 +407,8 @@ export function TaskEditor() {
             </p>
 
             <ToggleRow
-              label="ENFORCE TASK ORDER"
-              description="Tasks must be completed sequentially"
+              label="ENFORCE PREREQUISITES"
+              description="Tasks stay locked until the tasks they require are done"
               value={enforceTaskOrder}
               onToggle={toggleEnforceTaskOrder}
             />
@@ -114,48 +418,163 @@ export function TaskEditor() {
               value={enforcePomodoro}
               onToggle={toggleEnforcePomodoro}
             />
+            <ToggleRow
+              label="DEADLINES COUNT AS FAILURES"
+              description="A deadline passing on an open task logs a failure"
+              value={deadlineFailures}
+              onToggle={toggleDeadlineFailures}
+            />
           </div>
 
-          {/* ── Built-in tasks (read-only) ────────────────────────────── */}
-          <div className="px-4 py-4 border-b border-white/10">
+          {/* ── Day boundary ─────────────────────────────────────────── */}
+          <div className="px-4 py-4 space-y-3 border-b border-white/10">
             <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-3">
-              BUILT-IN TASKS ({TASK_DEFINITIONS.length})
+              DAY BOUNDARY
             </p>
-            <div className="space-y-1">
-              {TASK_DEFINITIONS.map((t) => (
-                <div
-                  key={t.id}
-                  className="flex items-center justify-between py-1"
-                >
-                  <span className="text-white/40 text-xs font-mono tracking-wide">
-                    {t.label}
-                  </span>
-                  <span className="text-white/20 text-[10px] tracking-widest">
-                    {t.duration}
-                  </span>
-                </div>
-              ))}
+            <div className="flex gap-2">
+              <SelectField
+                label="RESET HOUR"
+                value={String(resetHour)}
+                onChange={(v) => setDayBoundary(Number(v), timeZone)}
+                options={RESET_HOURS.map((h) => ({
+                  value: String(h),
+                  label: formatResetHour(h),
+                }))}
+              />
+              <SelectField
+                label="HOME ZONE"
+                value={timeZone ?? ""}
+                onChange={(v) => setDayBoundary(resetHour, v || null)}
+                options={[
+                  { value: "", label: "DEVICE ZONE" },
+                  ...listTimeZones().map((z) => ({ value: z, label: z })),
+                ]}
+              />
             </div>
+            <p className="text-white/25 text-[10px] tracking-wide">
+              Changes apply at the next boundary — the current day is never
+              archived twice.
+            </p>
+            <SelectField
+              label="CORRECTION WINDOW"
+              value={String(correctionWindowHours)}
+              onChange={(v) => setCorrectionWindow(Number(v))}
+              options={CORRECTION_WINDOW_HOURS.map((h) => ({
+                value: String(h),
+                label: h === 0 ? "OFF" : `${h}H AFTER RESET`,
+              }))}
+            />
+            <p className="text-white/25 text-[10px] tracking-wide">
+              The day that just closed can be amended this long after the
+              boundary; each change is logged with the original values.
+            </p>
           </div>
 
-          {/* ── Custom tasks ─────────────────────────────────────────── */}
+          {/* ── Streak policy ────────────────────────────────────────── */}
+          <div className="px-4 py-4 space-y-3 border-b border-white/10">
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-3">
+              STREAK POLICY
+            </p>
+            <StreakPolicyFields
+              policy={streakPolicy}
+              onChange={setStreakPolicy}
+            />
+            <p className="text-white/25 text-[10px] tracking-wide">
+              Applies from the next reset — days already closed keep their
+              verdict.
+            </p>
+            <button
+              onClick={recomputeStreak}
+              className="flex items-center gap-1 text-white/40 hover:text-white text-[10px] tracking-widest uppercase transition-colors cursor-pointer"
+              title="Re-judge every archived day under this policy"
+            >
+              <RotateCcw size={10} aria-hidden="true" />
+              RECOMPUTE FROM HISTORY
+            </button>
+          </div>
+
+          {/* ── Pomodoro cycles ──────────────────────────────────────── */}
+          <div className="px-4 py-4 space-y-3 border-b border-white/10">
+            <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase mb-3">
+              POMODORO CYCLES
+            </p>
+            <div className="flex gap-2">
+              <SelectField
+                label="SHORT BREAK"
+                value={String(pomodoroSettings.shortBreakMinutes)}
+                onChange={(v) =>
+                  setPomodoroSettings({
+                    ...pomodoroSettings,
+                    shortBreakMinutes: Number(v),
+                  })
+                }
+                options={SHORT_BREAK_MINUTES.map((m) => ({
+                  value: String(m),
+                  label: m === 0 ? "NONE" : `${m} MIN`,
+                }))}
+              />
+              <SelectField
+                label="LONG BREAK"
+                value={String(pomodoroSettings.longBreakMinutes)}
+                onChange={(v) =>
+                  setPomodoroSettings({
+                    ...pomodoroSettings,
+                    longBreakMinutes: Number(v),
+                  })
+                }
+                options={LONG_BREAK_MINUTES.map((m) => ({
+                  value: String(m),
+                  label: m === 0 ? "NONE" : `${m} MIN`,
+                }))}
+              />
+              <SelectField
+                label="LONG BREAK EVERY"
+                value={String(pomodoroSettings.longBreakEvery)}
+                onChange={(v) =>
+                  setPomodoroSettings({
+                    ...pomodoroSettings,
+                    longBreakEvery: Number(v),
+                  })
+                }
+                options={LONG_BREAK_EVERY.map((n) => ({
+                  value: String(n),
+                  label: n === 0 ? "NEVER" : `${n} INTERVALS`,
+                }))}
+              />
+            </div>
+            <p className="text-white/25 text-[10px] tracking-wide">
+              Work length is the timer duration set on each task. A break
+              starts on its own when a work interval ends; the cycle starts
+              over at each reset.
+            </p>
+          </div>
+
+          {/* ── Task catalog ─────────────────────────────────────────── */}
           <div className="px-4 py-4 border-b border-white/10">
             <div className="flex items-center justify-between mb-3">
               <p className="text-white/30 text-[10px] tracking-[0.4em] uppercase">
-                CUSTOM TASKS ({customTasks.length})
+                TASKS ({taskCatalog.length})
               </p>
               <button
-                onClick={() => setShowAddForm((v) => !v)}
+                onClick={() => {
+                  closeForm();
+                  setShowForm(true);
+                }}
                 className="flex items-center gap-1 text-white/40 hover:text-white text-[10px] tracking-widest uppercase transition-colors cursor-pointer"
-                aria-label="Add a custom task"
+                aria-label="Add a task"
               >
                 <Plus size={12} />
                 ADD
               </button>
             </div>
 
-            {/* Add form */}
-            {showAddForm && (
+            <p className="text-white/25 text-[10px] tracking-wide mb-3">
+              This order is the protocol order — the run sheet follows it.
+              Locks come from the REQUIRES list on each task.
+            </p>
+
+            {/* Add / edit form */}
+            {showForm && (
               <div className="border border-white/20 p-4 mb-3 space-y-3">
                 <InputField
                   label="TASK NAME"
@@ -192,29 +611,146 @@ export function TaskEditor() {
                   value={form.description}
                   onChange={(v) => setForm({ ...form, description: v })}
                 />
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <InputField
+                      label="TARGET (OPTIONAL)"
+                      placeholder="E.G. 20"
+                      value={form.targetAmount}
+                      onChange={(v) => setForm({ ...form, targetAmount: v })}
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <InputField
+                      label="UNIT"
+                      placeholder="E.G. PAGES"
+                      value={form.targetUnit}
+                      onChange={(v) => setForm({ ...form, targetUnit: v })}
+                    />
+                  </div>
+                </div>
                 <div className="space-y-1">
                   <label className="text-white/40 text-[10px] tracking-widest uppercase">
-                    TIMER DURATION (MINUTES)
+                    CHECKLIST (OPTIONAL, ONE ITEM PER LINE)
                   </label>
-                  <input
-                    type="number"
-                    min={1}
-                    max={480}
-                    value={form.pomoDurationMinutes}
+                  <textarea
+                    rows={3}
+                    value={form.checklistText}
                     onChange={(e) =>
-                      setForm({
-                        ...form,
-                        pomoDurationMinutes: parseInt(e.target.value) || 25,
-                        duration: `${e.target.value}m`,
-                      })
+                      setForm({ ...form, checklistText: e.target.value })
                     }
+                    placeholder={"JOINTS\nHIP FLEXORS"}
                     className="
                       w-full bg-black border border-white/40 text-white
-                      px-3 py-2 text-sm font-mono tracking-widest
-                      focus:outline-none focus:border-white
+                      px-3 py-2 text-sm font-mono tracking-wide
+                      placeholder:text-white/20
+                      focus:outline-none focus:border-white resize-y
                     "
                   />
                 </div>
+                <div className="flex gap-2">
+                  {TIMER_MODES.map((mode) => (
+                    <button
+                      key={mode.label}
+                      onClick={() =>
+                        setForm({ ...form, timeBudget: mode.timeBudget })
+                      }
+                      className={`
+                        flex-1 py-2 border text-[10px] tracking-widest uppercase font-mono
+                        transition-colors cursor-pointer
+                        ${!!form.timeBudget === mode.timeBudget
+                          ? "border-white bg-white text-black"
+                          : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                        }
+                      `}
+                      aria-pressed={!!form.timeBudget === mode.timeBudget}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1 space-y-1">
+                    <label className="text-white/40 text-[10px] tracking-widest uppercase">
+                      {form.timeBudget
+                        ? "FOCUS BUDGET (MINUTES — SESSIONS ADD UP)"
+                        : "TIMER DURATION (MINUTES)"}
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={480}
+                      value={form.pomoDurationMinutes}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          pomoDurationMinutes: parseInt(e.target.value) || 25,
+                          duration: `${e.target.value}m`,
+                        })
+                      }
+                      className="
+                        w-full bg-black border border-white/40 text-white
+                        px-3 py-2 text-sm font-mono tracking-widest
+                        focus:outline-none focus:border-white
+                      "
+                    />
+                  </div>
+                  {!form.timeBudget && (
+                    <div className="w-28 space-y-1">
+                      <label className="text-white/40 text-[10px] tracking-widest uppercase">
+                        INTERVALS
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_POMO_INTERVALS}
+                        value={form.pomoIntervals ?? 1}
+                        onChange={(e) =>
+                          setForm({
+                            ...form,
+                            pomoIntervals: parseInt(e.target.value) || 1,
+                          })
+                        }
+                        title="Work intervals the timer needs before it completes the task"
+                        className="
+                          w-full bg-black border border-white/40 text-white
+                          px-3 py-2 text-sm font-mono tracking-widest
+                          focus:outline-none focus:border-white
+                        "
+                      />
+                    </div>
+                  )}
+                </div>
+                <ScheduleFields
+                  schedule={form.schedule}
+                  onChange={(schedule) => setForm({ ...form, schedule })}
+                />
+                <div className="flex gap-2">
+                  <TimeField
+                    label="EARLIEST START"
+                    value={form.earliestStart}
+                    onChange={(earliestStart) =>
+                      setForm({ ...form, earliestStart })
+                    }
+                  />
+                  <TimeField
+                    label="DEADLINE"
+                    value={form.deadline}
+                    onChange={(deadline) => setForm({ ...form, deadline })}
+                  />
+                </div>
+                <RequiresFields
+                  options={taskCatalog.filter((t) => t.id !== editingId)}
+                  value={form.requires ?? []}
+                  onChange={(requires) => setForm({ ...form, requires })}
+                />
+                <QuotaFields
+                  count={form.quotaCount}
+                  period={form.quotaPeriod}
+                  onChange={(quotaCount, quotaPeriod) =>
+                    setForm({ ...form, quotaCount, quotaPeriod })
+                  }
+                />
                 {formError && (
                   <p className="text-terminal-red text-[10px] tracking-widest uppercase">
                     {formError}
@@ -222,21 +758,17 @@ export function TaskEditor() {
                 )}
                 <div className="flex gap-2">
                   <button
-                    onClick={handleAdd}
+                    onClick={handleSubmit}
                     className="
                       flex-1 py-3 border border-white
                       text-white text-xs tracking-widest uppercase font-mono font-bold
                       hover:bg-white hover:text-black transition-colors cursor-pointer
                     "
                   >
-                    ADD TASK
+                    {editingId ? "SAVE TASK" : "ADD TASK"}
                   </button>
                   <button
-                    onClick={() => {
-                      setShowAddForm(false);
-                      setFormError("");
-                      setForm(BLANK_FORM);
-                    }}
+                    onClick={closeForm}
                     className="
                       px-4 py-3 border border-white/20
                       text-white/40 text-xs tracking-widest uppercase font-mono
@@ -249,33 +781,114 @@ export function TaskEditor() {
               </div>
             )}
 
-            {/* Custom task list */}
-            {customTasks.length === 0 && !showAddForm && (
+            {/* Catalog, in protocol order */}
+            {taskCatalog.length === 0 && !showForm && (
               <p className="text-white/20 text-[10px] tracking-widest uppercase">
-                NO CUSTOM TASKS
+                NO TASKS
               </p>
             )}
             <div className="space-y-1">
-              {customTasks.map((task: CustomTask) => (
+              {taskCatalog.map((task, index) => (
                 <div
                   key={task.id}
-                  className="flex items-center justify-between py-1.5 border-b border-white/5"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", task.id);
+                    setDragId(task.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!dragId) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "move";
+                    setDropIndex(index);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (dragId) moveTask(dragId, index);
+                    endDrag();
+                  }}
+                  onDragEnd={endDrag}
+                  className={`
+                    flex items-center justify-between gap-2 py-1.5 border-b
+                    ${dragId === task.id ? "opacity-30" : ""}
+                    ${dropIndex === index && dragId !== task.id
+                      ? "border-white"
+                      : "border-white/5"
+                    }
+                  `}
                 >
-                  <div>
-                    <p className="text-white/60 text-xs font-mono tracking-wide">
+                  <button
+                    ref={(el) => {
+                      if (el) gripRefs.current.set(task.id, el);
+                      else gripRefs.current.delete(task.id);
+                    }}
+                    onKeyDown={(e) => handleGripKey(e, task.id, index)}
+                    className="flex-shrink-0 p-1 text-white/20 hover:text-white focus:text-white focus:outline-none cursor-grab"
+                    aria-label={`Reorder ${task.label}, position ${index + 1} of ${taskCatalog.length}. Use arrow keys to move.`}
+                    title="Drag or use ↑/↓ to reorder"
+                  >
+                    <GripVertical size={12} />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={`text-xs font-mono tracking-wide truncate ${
+                        task.hidden ? "text-white/25 line-through" : "text-white/60"
+                      }`}
+                    >
                       {task.label}
                     </p>
                     <p className="text-white/20 text-[10px] tracking-widest uppercase">
                       {task.category} · {task.duration}
+                      {task.timeBudget
+                        ? " BUDGET"
+                        : task.pomoIntervals && ` ×${task.pomoIntervals}`}
+                      {task.target &&
+                        ` · ${task.target.amount} ${task.target.unit}`}
+                      {task.checklist &&
+                        ` · ${task.checklist.length} ITEMS`}
+                      {task.schedule && ` · ${describeSchedule(task.schedule)}`}
+                      {(task.earliestStart || task.deadline) &&
+                        ` · ${describeWindow(task)}`}
+                      {task.quota &&
+                        ` · ${task.quota.count}× ${
+                          task.quota.period === "calendarWeek" ? "PER WEEK" : "PER 7 DAYS"
+                        }`}
+                      {task.requires &&
+                        task.requires.length > 0 &&
+                        ` · AFTER ${task.requires
+                          .map(
+                            (id) =>
+                              taskCatalog.find((t) => t.id === id)?.label ?? id
+                          )
+                          .join(", ")}`}
+                      {task.hidden && " · HIDDEN"}
                     </p>
                   </div>
-                  <button
-                    onClick={() => handleRemove(task.id)}
-                    className="text-white/20 hover:text-terminal-red transition-colors p-1 cursor-pointer"
-                    aria-label={`Remove task ${task.label}`}
-                  >
-                    <Trash2 size={12} />
-                  </button>
+                  <div className="flex items-center flex-shrink-0">
+                    <IconButton
+                      label={`Edit task ${task.label}`}
+                      onClick={() => openEdit(task)}
+                    >
+                      <Pencil size={12} />
+                    </IconButton>
+                    <IconButton
+                      label={`${task.hidden ? "Show" : "Hide"} task ${task.label}`}
+                      onClick={() => setTaskHidden(task.id, !task.hidden)}
+                    >
+                      {task.hidden ? <Eye size={12} /> : <EyeOff size={12} />}
+                    </IconButton>
+                    <IconButton
+                      label={`Remove task ${task.label}`}
+                      danger
+                      onClick={() => {
+                        if (editingId === task.id) closeForm();
+                        removeTask(task.id);
+                      }}
+                    >
+                      <Trash2 size={12} />
+                    </IconButton>
+                  </div>
                 </div>
               ))}
             </div>
@@ -288,6 +901,35 @@ export function TaskEditor() {
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
+/** Optional HH:MM input (blank = none) */
+function TimeField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  onChange: (v: string | undefined) => void;
+}) {
+  return (
+    <div className="flex-1 space-y-1">
+      <label className="text-white/40 text-[10px] tracking-widest uppercase">
+        {label} (OPTIONAL)
+      </label>
+      <input
+        type="time"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        className="
+          w-full bg-black border border-white/40 text-white
+          px-3 py-2 text-sm font-mono tracking-widest
+          focus:outline-none focus:border-white [color-scheme:dark]
+        "
+      />
+    </div>
+  );
+}
+
 function ToggleRow({
   label,
   description,
@@ -331,6 +973,241 @@ function ToggleRow({
   );
 }
 
+function RequiresFields({
+  options,
+  value,
+  onChange,
+}: {
+  options: Task[];
+  value: string[];
+  onChange: (requires: string[]) => void;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-white/40 text-[10px] tracking-widest uppercase">
+        REQUIRES (OPTIONAL)
+      </label>
+      <div className="flex flex-wrap gap-1">
+        {options.map((task) => {
+          const on = value.includes(task.id);
+          return (
+            <button
+              key={task.id}
+              onClick={() =>
+                onChange(
+                  on ? value.filter((id) => id !== task.id) : [...value, task.id]
+                )
+              }
+              className={`
+                px-2 py-1.5 border text-[10px] tracking-widest uppercase font-mono
+                transition-colors cursor-pointer
+                ${on
+                  ? "border-white bg-white text-black"
+                  : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                }
+              `}
+              aria-pressed={on}
+            >
+              {task.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function QuotaFields({
+  count,
+  period,
+  onChange,
+}: {
+  count: string;
+  period: TaskQuota["period"];
+  onChange: (count: string, period: TaskQuota["period"]) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <InputField
+        label="WEEKLY QUOTA (OPTIONAL — SESSIONS PER WEEK, BLANK = DAILY)"
+        placeholder="E.G. 3"
+        value={count}
+        onChange={(v) => onChange(v, period)}
+      />
+      {count.trim() !== "" && (
+        <div className="flex gap-2">
+          {QUOTA_PERIODS.map((option) => (
+            <button
+              key={option.period}
+              onClick={() => onChange(count, option.period)}
+              className={`
+                flex-1 py-2 border text-[10px] tracking-widest uppercase font-mono
+                transition-colors cursor-pointer
+                ${period === option.period
+                  ? "border-white bg-white text-black"
+                  : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                }
+              `}
+              aria-pressed={period === option.period}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ScheduleFields({
+  schedule,
+  onChange,
+}: {
+  schedule: TaskSchedule | undefined;
+  onChange: (schedule: TaskSchedule | undefined) => void;
+}) {
+  const kind: ScheduleKind = schedule?.kind ?? "daily";
+  const dateInputClass = `
+    w-full bg-black border border-white/40 text-white
+    px-3 py-2 text-sm font-mono tracking-wide
+    focus:outline-none focus:border-white [color-scheme:dark]
+  `;
+
+  return (
+    <div className="space-y-2">
+      <label className="text-white/40 text-[10px] tracking-widest uppercase">
+        SCHEDULE
+      </label>
+      <div className="flex gap-2">
+        {SCHEDULE_KINDS.map((option) => (
+          <button
+            key={option.kind}
+            onClick={() => onChange(defaultSchedule(option.kind))}
+            className={`
+              flex-1 py-2 border text-[10px] tracking-widest uppercase font-mono
+              transition-colors cursor-pointer
+              ${kind === option.kind
+                ? "border-white bg-white text-black"
+                : "border-white/20 bg-black text-white/40 hover:border-white/60"
+              }
+            `}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {schedule?.kind === "weekdays" && (
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const on = schedule.days.includes(day);
+            return (
+              <button
+                key={label}
+                onClick={() =>
+                  onChange({
+                    ...schedule,
+                    days: on
+                      ? schedule.days.filter((d) => d !== day)
+                      : [...schedule.days, day].sort((a, b) => a - b),
+                  })
+                }
+                className={`
+                  flex-1 py-1.5 border text-[10px] tracking-widest font-mono
+                  transition-colors cursor-pointer
+                  ${on
+                    ? "border-white bg-white text-black"
+                    : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                  }
+                `}
+                aria-pressed={on}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {schedule?.kind === "interval" && (
+        <div className="flex gap-2 items-center">
+          <span className="text-white/40 text-[10px] tracking-widest uppercase">
+            EVERY
+          </span>
+          <input
+            type="number"
+            min={1}
+            value={schedule.every}
+            onChange={(e) =>
+              onChange({ ...schedule, every: parseInt(e.target.value) || 1 })
+            }
+            className={`${dateInputClass} w-20`}
+            aria-label="Interval in days"
+          />
+          <span className="text-white/40 text-[10px] tracking-widest uppercase">
+            DAYS FROM
+          </span>
+          <input
+            type="date"
+            value={schedule.startDay}
+            onChange={(e) => onChange({ ...schedule, startDay: e.target.value })}
+            className={dateInputClass}
+            aria-label="Start date"
+          />
+        </div>
+      )}
+
+      {schedule?.kind === "dateRange" && (
+        <div className="flex gap-2 items-center">
+          <input
+            type="date"
+            value={schedule.from}
+            onChange={(e) => onChange({ ...schedule, from: e.target.value })}
+            className={dateInputClass}
+            aria-label="First day"
+          />
+          <span className="text-white/40 text-[10px] tracking-widest">→</span>
+          <input
+            type="date"
+            value={schedule.to}
+            onChange={(e) => onChange({ ...schedule, to: e.target.value })}
+            className={dateInputClass}
+            aria-label="Last day"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function IconButton({
+  label,
+  onClick,
+  danger = false,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`
+        p-1 transition-colors cursor-pointer
+        ${danger ? "text-white/20 hover:text-terminal-red" : "text-white/20 hover:text-white"}
+      `}
+      aria-label={label}
+      title={label}
+    >
+      {children}
+    </button>
+  );
+}
+
 function InputField({
   label,
   placeholder,
@@ -362,3 +1239,139 @@ function InputField({
     </div>
   );
 }
+
+const MIN_PERCENT_OPTIONS = [100, 90, 80, 70, 60, 50];
+const FREEZE_EVERY_OPTIONS = [0, 5, 7, 10, 14, 30];
+const MAX_FREEZE_OPTIONS = [1, 2, 3, 5];
+const FAILURE_LIMIT_OPTIONS = [1, 2, 3, 5, 10];
+
+function StreakPolicyFields({
+  policy,
+  onChange,
+}: {
+  policy: StreakPolicy;
+  onChange: (policy: StreakPolicy) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <SelectField
+          label="DAY COUNTS AT"
+          value={String(policy.minPercent)}
+          onChange={(v) => onChange({ ...policy, minPercent: Number(v) })}
+          options={MIN_PERCENT_OPTIONS.map((p) => ({
+            value: String(p),
+            label: p === 100 ? "ALL TASKS" : `${p}% DONE`,
+          }))}
+        />
+        <SelectField
+          label="FAILURES BREAK AT"
+          value={policy.failureLimit === null ? "" : String(policy.failureLimit)}
+          onChange={(v) =>
+            onChange({ ...policy, failureLimit: v ? Number(v) : null })
+          }
+          options={[
+            { value: "", label: "NEVER" },
+            ...FAILURE_LIMIT_OPTIONS.map((n) => ({
+              value: String(n),
+              label: `${n} FAILURE${n === 1 ? "" : "S"}`,
+            })),
+          ]}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-white/40 text-[10px] tracking-widest uppercase">
+          PLANNED REST DAYS
+        </label>
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => {
+            const on = policy.restDays.includes(day);
+            return (
+              <button
+                key={label}
+                onClick={() =>
+                  onChange({
+                    ...policy,
+                    restDays: on
+                      ? policy.restDays.filter((d) => d !== day)
+                      : [...policy.restDays, day].sort((a, b) => a - b),
+                  })
+                }
+                className={`
+                  flex-1 py-1.5 border text-[10px] tracking-widest font-mono
+                  transition-colors cursor-pointer
+                  ${on
+                    ? "border-white bg-white text-black"
+                    : "border-white/20 bg-black text-white/40 hover:border-white/60"
+                  }
+                `}
+                aria-pressed={on}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <SelectField
+          label="EARN A FREEZE"
+          value={String(policy.freezeEvery)}
+          onChange={(v) => onChange({ ...policy, freezeEvery: Number(v) })}
+          options={FREEZE_EVERY_OPTIONS.map((n) => ({
+            value: String(n),
+            label: n === 0 ? "NEVER" : `EVERY ${n}-DAY RUN`,
+          }))}
+        />
+        {policy.freezeEvery > 0 && (
+          <SelectField
+            label="BANK UP TO"
+            value={String(policy.maxFreezes)}
+            onChange={(v) => onChange({ ...policy, maxFreezes: Number(v) })}
+            options={MAX_FREEZE_OPTIONS.map((n) => ({
+              value: String(n),
+              label: `${n} FREEZE${n === 1 ? "" : "S"}`,
+            }))}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SelectField({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string;
+  value: string;
+  onChange: (v: string) => void;
+  options: Array<{ value: string; label: string }>;
+}) {
+  return (
+    <div className="flex-1 min-w-0 space-y-1">
+      <label className="text-white/40 text-[10px] tracking-widest uppercase">
+        {label}
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="
+          w-full bg-black border border-white/40 text-white
+          px-3 py-2 text-sm font-mono tracking-wide
+          focus:outline-none focus:border-white
+        "
+      >
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -3,32 +3,61 @@
  *
  * Updated to support:
  *   - Pomodoro timer per task row
- *   - Task ordering lock (isLocked per row)
+ *   - Prerequisite lock (isLocked per row, naming the blocking tasks)
  *   - enforcePomodoro mode (checkbox disabled, must use timer)
- *   - Both built-in TaskDefinition and CustomTask shapes
+ *   - Any task from the catalog (seeded defaults and user-added alike)
+ *   - Completion time per row, derived from the activity log
+ *   - Mixed-category lists (the run sheet): rows then show their category
+ *   - Quantitative tasks: progress toward the target, logged by increment
+ *     or as an absolute value
+ *   - Checklist tasks: each sub-item ticks off individually
+ *   - Weekly quota tasks: sessions counted so far in the current window
+ *   - Time windows: upcoming / due / overdue, and late completions
+ *   - Pomodoro cycles: work intervals done / needed, and a break running on
+ *     the row (dashed outline) even after its interval completed the task
+ *   - Focus minutes logged on the task today (pomodoro sessions); for
+ *     time-budget tasks, the minutes accumulated against the budget
  */
 
 "use client";
 
-import { TaskCategory, useGrindStore } from "@/store/useGrindStore";
+import { useMemo } from "react";
+import {
+  ChecklistItem,
+  Task,
+  TaskCategory,
+  boardTasks,
+  checklistKey,
+  useGrindStore,
+} from "@/store/useGrindStore";
 import { PomodoroTimer } from "@/components/PomodoroTimer";
+import { deriveCompletionTimes } from "@/lib/activityLog";
+import { QuotaStatus, quotaStatus } from "@/lib/quotaUtils";
+import { unmetPrerequisites } from "@/lib/taskGraph";
+import {
+  WindowState,
+  describeWindow,
+  isLateCompletion,
+  windowState,
+} from "@/lib/deadlineUtils";
+import { useDayMinute } from "@/hooks/useDayMinute";
+import { formatLocalTime } from "@/lib/timeUtils";
+import {
+  BudgetStatus,
+  budgetStatus,
+  focusMinutesByTask,
+  formatFocus,
+  intervalsNeeded,
+  workIntervalsDone,
+} from "@/lib/pomodoroUtils";
 import { Lock } from "lucide-react";
 
-// Minimal shared task shape — both TaskDefinition and CustomTask satisfy this
-export interface AnyTask {
-  id: string;
-  label: string;
-  category: TaskCategory;
-  duration: string;
-  description: string;
-  pomoDurationMinutes: number;
-}
-
 interface TaskPanelProps {
-  category: TaskCategory;
-  tasks: AnyTask[];
+  /** Omitted when the panel mixes categories (run sheet) */
+  category?: TaskCategory;
+  tasks: Task[];
   label: string;
-  /** Task IDs that are locked due to enforceTaskOrder */
+  /** Task IDs locked by an unmet prerequisite (enforceTaskOrder) */
   lockedTaskIds: Set<string>;
   /** Called when a task checkbox is clicked */
   onToggle: (id: string) => void;
@@ -45,6 +74,34 @@ export function TaskPanel({
   completions,
 }: TaskPanelProps) {
   const enforcePomodoro = useGrindStore((s) => s.enforcePomodoro);
+  const progress = useGrindStore((s) => s.progress);
+  const setTaskProgress = useGrindStore((s) => s.setTaskProgress);
+  const checkedItems = useGrindStore((s) => s.checkedItems);
+  const toggleChecklistItem = useGrindStore((s) => s.toggleChecklistItem);
+  const activityLog = useGrindStore((s) => s.activityLog);
+  const boardDay = useGrindStore((s) => s.lastResetDisciplineDay);
+  const dayHistory = useGrindStore((s) => s.dayHistory);
+  const taskCatalog = useGrindStore((s) => s.taskCatalog);
+  const board = boardTasks(taskCatalog, boardDay);
+  const dayMinute = useDayMinute();
+  const completedAt = useMemo(
+    () => deriveCompletionTimes(activityLog, boardDay),
+    [activityLog, boardDay]
+  );
+  const intervals = useMemo(
+    () => workIntervalsDone(activityLog, boardDay),
+    [activityLog, boardDay]
+  );
+  const pomodoroSessions = useGrindStore((s) => s.pomodoroSessions);
+  const focus = useMemo(
+    () => focusMinutesByTask(pomodoroSessions, boardDay),
+    [pomodoroSessions, boardDay]
+  );
+  const breakTaskId = useGrindStore((s) =>
+    s.activePomodoro && s.activePomodoro.phase !== "work"
+      ? s.activePomodoro.taskId
+      : null
+  );
 
   const completedCount = tasks.filter((t) => completions[t.id]).length;
   const total = tasks.length;
@@ -81,6 +138,15 @@ export function TaskPanel({
         {tasks.map((task) => {
           const isCompleted = completions[task.id] ?? false;
           const isLocked = lockedTaskIds.has(task.id);
+          const blockedBy = isLocked
+            ? unmetPrerequisites(task, board, completions).map((t) => t.label)
+            : [];
+          const quota = task.quota
+            ? quotaStatus({ ...task, quota: task.quota }, dayHistory, {
+                day: boardDay,
+                completions,
+              })
+            : null;
 
           return (
             <TaskRow
@@ -88,8 +154,27 @@ export function TaskPanel({
               task={task}
               isCompleted={isCompleted}
               isLocked={isLocked}
+              blockedBy={blockedBy}
+              timeWindow={
+                dayMinute === null ? null : windowState(task, dayMinute)
+              }
+              completedAt={completedAt[task.id] ?? null}
               enforcePomodoro={enforcePomodoro}
+              intervalsDone={intervals[task.id] ?? 0}
+              focusMinutes={focus[task.id] ?? 0}
+              budget={
+                task.timeBudget
+                  ? budgetStatus(task, pomodoroSessions, boardDay)
+                  : null
+              }
+              onBreak={breakTaskId === task.id}
+              showCategory={category === undefined}
+              amount={progress[task.id] ?? 0}
+              checkedItems={checkedItems}
+              quota={quota}
               onToggle={() => onToggle(task.id)}
+              onSetProgress={(amount) => setTaskProgress(task.id, amount)}
+              onToggleItem={(itemId) => toggleChecklistItem(task.id, itemId)}
             />
           );
         })}
@@ -101,29 +186,74 @@ export function TaskPanel({
 // ─── TaskRow ──────────────────────────────────────────────────────────────────
 
 interface TaskRowProps {
-  task: AnyTask;
+  task: Task;
   isCompleted: boolean;
   isLocked: boolean;
+  /** Labels of the unmet prerequisites locking this row */
+  blockedBy: string[];
+  /** Time-window state now (null = no window, or clock not read yet) */
+  timeWindow: WindowState | null;
+  /** ISO timestamp of the current completion, from the activity log */
+  completedAt: string | null;
   enforcePomodoro: boolean;
+  /** Work intervals finished today for this task */
+  intervalsDone: number;
+  /** Minutes focused on this task today (pomodoro sessions) */
+  focusMinutes: number;
+  /** Time-budget tasks: focus today against the budget */
+  budget: BudgetStatus | null;
+  /** A break following this task's work interval is running */
+  onBreak: boolean;
+  /** Tag the row with its category (lists that mix categories) */
+  showCategory: boolean;
+  /** Amount logged so far (quantitative tasks) */
+  amount: number;
   onToggle: () => void;
+  onSetProgress: (amount: number) => void;
+  /** Ticked sub-items, keyed by checklistKey (checklist tasks) */
+  checkedItems: Record<string, boolean>;
+  onToggleItem: (itemId: string) => void;
+  /** Sessions in the current window (weekly quota tasks) */
+  quota: QuotaStatus | null;
 }
 
 function TaskRow({
   task,
   isCompleted,
   isLocked,
+  blockedBy,
+  timeWindow,
+  completedAt,
   enforcePomodoro,
+  intervalsDone,
+  focusMinutes,
+  budget,
+  onBreak,
+  showCategory,
+  amount,
+  checkedItems,
+  quota,
   onToggle,
+  onSetProgress,
+  onToggleItem,
 }: TaskRowProps) {
   // When enforcePomodoro is on, clicking the checkbox is disabled.
-  // The only path to completion is via PomodoroTimer.onComplete → onToggle.
+  // The only path to completion is via PomodoroTimer → store.finishPomodoro.
   const checkboxDisabled = isLocked || (enforcePomodoro && !isCompleted);
+  const late = isCompleted && isLateCompletion(task, completedAt);
 
   return (
     <li
       className={`
         transition-colors duration-75
         ${isCompleted ? "bg-white" : isLocked ? "bg-black/80" : "bg-black"}
+        ${
+          onBreak
+            ? `outline-dashed outline-1 -outline-offset-4 ${
+                isCompleted ? "outline-black/40" : "outline-white/40"
+              }`
+            : ""
+        }
       `}
     >
       <div
@@ -151,7 +281,14 @@ function TaskRow({
           `}
           aria-pressed={isCompleted}
           aria-disabled={checkboxDisabled}
-          aria-label={`${task.label} — ${isCompleted ? "completed" : isLocked ? "locked" : "incomplete"}`}
+          aria-label={`${task.label} — ${
+            isCompleted
+              ? "completed"
+              : isLocked
+              ? `locked until ${blockedBy.join(", ")} is done`
+              : "incomplete"
+          }`}
+          title={isLocked ? `Requires ${blockedBy.join(", ")}` : undefined}
         >
           {isLocked ? (
             <Lock size={10} className="text-white/30" />
@@ -178,7 +315,9 @@ function TaskRow({
                 ${isCompleted ? "text-black/50" : "text-white/40"}
               `}
             >
-              {task.duration}
+              {isCompleted && completedAt
+                ? `✓ ${formatLocalTime(completedAt)}${late ? " LATE" : ""}`
+                : task.duration}
             </span>
           </div>
 
@@ -188,9 +327,98 @@ function TaskRow({
               ${isCompleted ? "text-black/40" : "text-white/30"}
             `}
           >
+            {showCategory && (
+              <span
+                className={`mr-2 text-[10px] tracking-widest uppercase ${
+                  isCompleted ? "text-black/50" : "text-white/40"
+                }`}
+              >
+                {task.category}
+              </span>
+            )}
             {task.description}
           </p>
 
+          {/* Time window */}
+          {timeWindow && !isCompleted && (
+            <p
+              className={`mt-1 text-[10px] tracking-widest uppercase font-mono ${
+                timeWindow === "overdue" ? "text-terminal-red" : "text-white/40"
+              }`}
+            >
+              {timeWindow === "upcoming"
+                ? `OPENS ${task.earliestStart}`
+                : timeWindow === "overdue"
+                ? `OVERDUE — DUE ${task.deadline}`
+                : task.deadline
+                ? `DUE ${task.deadline}`
+                : describeWindow(task)}
+            </p>
+          )}
+
+          {/* Blocking prerequisites */}
+          {isLocked && blockedBy.length > 0 && (
+            <p className="mt-1 flex items-center gap-1 text-white/40 text-[10px] tracking-widest uppercase">
+              <Lock size={9} aria-hidden="true" />
+              REQUIRES {blockedBy.join(" + ")}
+            </p>
+          )}
+
+          {/* Weekly quota standing */}
+          {quota && task.quota && (
+            <p
+              className={`mt-1 text-[10px] tracking-widest uppercase font-mono ${
+                isCompleted ? "text-black/60" : "text-white/50"
+              }`}
+            >
+              {quota.count}/{quota.target}{" "}
+              {task.quota.period === "calendarWeek" ? "THIS WEEK" : "LAST 7 DAYS"}
+              {" · "}
+              {quota.met ? "QUOTA MET" : `${quota.remaining} LEFT`}
+            </p>
+          )}
+
+          {/* Quantitative progress */}
+          {task.target && (
+            <ProgressControl
+              amount={amount}
+              target={task.target.amount}
+              unit={task.target.unit}
+              isCompleted={isCompleted}
+              disabled={isLocked}
+              onSet={onSetProgress}
+            />
+          )}
+
+          {/* Sub-item checklist */}
+          {task.checklist && task.checklist.length > 0 && (
+            <Checklist
+              items={task.checklist}
+              isTicked={(item) =>
+                checkedItems[checklistKey(task.id, item.id)] ?? false
+              }
+              isCompleted={isCompleted}
+              disabled={isLocked}
+              onToggle={onToggleItem}
+            />
+          )}
+
+          {/* Time budget: accumulated vs required */}
+          {budget && (
+            <BudgetProgress budget={budget} isCompleted={isCompleted} />
+          )}
+
+          {/* Focus time logged today */}
+          {!budget && focusMinutes > 0 && (
+            <p
+              className={`mt-1 text-[10px] tracking-widest uppercase font-mono ${
+                isCompleted ? "text-black/50" : "text-white/40"
+              }`}
+            >
+              {formatFocus(focusMinutes)} FOCUSED TODAY
+            </p>
+          )}
+
           {/* Enforcement hint */}
           {enforcePomodoro && !isCompleted && !isLocked && (
             <p className="mt-1 text-white/25 text-[10px] tracking-widest uppercase">
@@ -198,13 +426,16 @@ function TaskRow({
             </p>
           )}
 
-          {/* Pomodoro timer — hidden when completed or locked */}
-          {!isCompleted && !isLocked && (
+          {/* Pomodoro timer — hidden when completed or locked, unless the
+              break after its last interval is still running */}
+          {((!isCompleted && !isLocked) || onBreak) && (
             <PomodoroTimer
               taskId={task.id}
               pomoDurationMinutes={task.pomoDurationMinutes}
               isCompleted={isCompleted}
-              onComplete={onToggle}
+              intervalsDone={intervalsDone}
+              intervalsNeeded={intervalsNeeded(task)}
+              budget={budget}
             />
           )}
         </div>
@@ -212,3 +443,197 @@ function TaskRow({
     </li>
   );
 }
+
+// ─── BudgetProgress ───────────────────────────────────────────────────────────
+
+function BudgetProgress({
+  budget,
+  isCompleted,
+}: {
+  budget: BudgetStatus;
+  isCompleted: boolean;
+}) {
+  // Floored, so a budget 20 seconds short never reads as met
+  const focused = Math.floor(budget.focusedMs / 60_000);
+  const required = Math.round(budget.requiredMs / 60_000);
+  const fill = Math.min(100, (budget.focusedMs / budget.requiredMs) * 100);
+  return (
+    <div className="mt-2 space-y-1">
+      <p
+        className={`text-[10px] tracking-widest uppercase font-mono ${
+          isCompleted ? "text-black/60" : "text-white/50"
+        }`}
+      >
+        {focused}/{required} MIN FOCUSED
+        {budget.met ? " · BUDGET MET" : ` · ${required - focused} TO GO`}
+      </p>
+      <div
+        className={`h-1 ${isCompleted ? "bg-black/15" : "bg-white/15"}`}
+        aria-hidden="true"
+      >
+        <div
+          className={`h-full ${isCompleted ? "bg-black" : "bg-white"}`}
+          style={{ width: `${fill}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ─── ProgressControl ──────────────────────────────────────────────────────────
+
+interface ProgressControlProps {
+  amount: number;
+  target: number;
+  unit: string;
+  isCompleted: boolean;
+  disabled: boolean;
+  onSet: (amount: number) => void;
+}
+
+/** Amount / target with a fill bar, ±1 steppers and an absolute-value field */
+function ProgressControl({
+  amount,
+  target,
+  unit,
+  isCompleted,
+  disabled,
+  onSet,
+}: ProgressControlProps) {
+  const percent = Math.min((amount / target) * 100, 100);
+
+  function commit(raw: string) {
+    const value = Number(raw);
+    if (raw.trim() !== "" && Number.isFinite(value) && value !== amount) {
+      onSet(value);
+    }
+  }
+
+  const stepClass = `
+    w-6 h-6 border text-xs font-mono
+    ${disabled ? "cursor-not-allowed" : "cursor-pointer"}
+    ${
+      isCompleted
+        ? "border-black/30 text-black/60 hover:bg-black/10"
+        : "border-white/30 text-white/60 hover:bg-white/10"
+    }
+  `;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onSet(Math.max(0, amount - 1))}
+          disabled={disabled || amount <= 0}
+          className={stepClass}
+          aria-label="Decrease by 1"
+        >
+          −
+        </button>
+        <input
+          key={amount}
+          type="number"
+          min={0}
+          defaultValue={amount}
+          disabled={disabled}
+          onBlur={(e) => commit(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+          className={`
+            w-16 h-6 bg-transparent border px-1 text-xs font-mono tabular-nums text-right
+            focus:outline-none
+            ${
+              isCompleted
+                ? "border-black/30 text-black focus:border-black"
+                : "border-white/30 text-white focus:border-white"
+            }
+          `}
+          aria-label={`Amount logged, in ${unit || "units"}`}
+        />
+        <button
+          onClick={() => onSet(amount + 1)}
+          disabled={disabled}
+          className={stepClass}
+          aria-label="Increase by 1"
+        >
+          +
+        </button>
+        <span
+          className={`text-xs font-mono tracking-widest uppercase tabular-nums ${
+            isCompleted ? "text-black/60" : "text-white/50"
+          }`}
+        >
+          / {target} {unit}
+        </span>
+      </div>
+      <div
+        className={`h-1 ${isCompleted ? "bg-black/15" : "bg-white/15"}`}
+        aria-hidden="true"
+      >
+        <div
+          className={`h-full ${isCompleted ? "bg-black" : "bg-white"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ─── Checklist ────────────────────────────────────────────────────────────────
+
+interface ChecklistProps {
+  items: ChecklistItem[];
+  isTicked: (item: ChecklistItem) => boolean;
+  isCompleted: boolean;
+  disabled: boolean;
+  onToggle: (itemId: string) => void;
+}
+
+/** Ordered sub-items, each with its own tick box */
+function Checklist({
+  items,
+  isTicked,
+  isCompleted,
+  disabled,
+  onToggle,
+}: ChecklistProps) {
+  return (
+    <ul className="mt-2 space-y-1">
+      {items.map((item) => {
+        const ticked = isTicked(item);
+        return (
+          <li key={item.id}>
+            <button
+              onClick={() => onToggle(item.id)}
+              disabled={disabled}
+              className={`
+                flex items-center gap-2 text-xs tracking-widest uppercase font-mono
+                ${disabled ? "cursor-not-allowed" : "cursor-pointer"}
+                ${
+                  isCompleted
+                    ? "text-black/60"
+                    : ticked
+                    ? "text-white/40 line-through"
+                    : "text-white/70 hover:text-white"
+                }
+              `}
+              aria-pressed={ticked}
+              aria-label={`${item.label} — ${ticked ? "done" : "not done"}`}
+            >
+              <span
+                className={`
+                  w-3 h-3 border flex items-center justify-center text-[8px]
+                  ${isCompleted ? "border-black/40" : "border-white/40"}
+                `}
+              >
+                {ticked ? "✓" : ""}
+              </span>
+              {item.label}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
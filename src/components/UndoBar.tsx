@@ -0,0 +1,67 @@
+/**
+ * UndoBar.tsx
+ *
+ * Floating undo/redo strip, bottom-left. Visible only while the journal has
+ * something to undo or redo. Shows the label of the action UNDO would revert
+ * and registers the Ctrl/⌘+Z family of shortcuts.
+ */
+
+"use client";
+
+import { useGrindStore } from "@/store/useGrindStore";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
+import { Redo2, Undo2 } from "lucide-react";
+
+export function UndoBar() {
+  useUndoShortcuts();
+
+  const journal = useGrindStore((s) => s.journal);
+  const undo = useGrindStore((s) => s.undo);
+  const redo = useGrindStore((s) => s.redo);
+
+  const lastAction = journal.past[journal.past.length - 1];
+  const nextRedo = journal.future[journal.future.length - 1];
+
+  if (!lastAction && !nextRedo) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-30 flex items-stretch border border-white bg-black font-mono">
+      <button
+        onClick={undo}
+        disabled={!lastAction}
+        className={`
+          flex items-center gap-2 px-3 py-2
+          text-[10px] tracking-widest uppercase
+          transition-colors duration-75
+          ${lastAction
+            ? "text-white hover:bg-white hover:text-black cursor-pointer"
+            : "text-white/20 cursor-not-allowed"
+          }
+        `}
+        aria-label={lastAction ? `Undo ${lastAction.label}` : "Nothing to undo"}
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 size={12} />
+        <span className="max-w-[16rem] truncate">
+          {lastAction ? `UNDO ${lastAction.label}` : "UNDO"}
+        </span>
+      </button>
+      <button
+        onClick={redo}
+        disabled={!nextRedo}
+        className={`
+          flex items-center px-3 border-l border-white/30
+          transition-colors duration-75
+          ${nextRedo
+            ? "text-white hover:bg-white hover:text-black cursor-pointer"
+            : "text-white/20 cursor-not-allowed"
+          }
+        `}
+        aria-label={nextRedo ? `Redo ${nextRedo.label}` : "Nothing to redo"}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 size={12} />
+      </button>
+    </div>
+  );
+}
@@ -7,10 +7,21 @@
  * Strategy (two-layer protection):
  *   1. On mount: immediately check if a reset is overdue (handles missed resets
  *      while app was closed, e.g., user opens at 9 AM).
- *   2. Scheduled: set a setTimeout for the *next* 04:00 boundary, then
+ *   2. Scheduled: set a setTimeout for the *next* reset boundary, then
  *      recursively re-arm itself. This handles resets while the app is open.
  *
- * This hook must be mounted once, at the root of the app.
+ * Changing the reset hour or home zone re-runs both layers against the new
+ * boundary. performDailyReset only moves forward, so a change can never
+ * archive the day on the board twice or roll it back.
+ *
+ * Both layers wait for the store to finish hydrating: storage is async
+ * (IndexedDB), and a reset against the not-yet-loaded default state would
+ * archive nothing and stamp today as already reset.
+ *
+ * Only the leader tab runs resets (see lib/tabSync.ts); the others receive
+ * the archived day through sync, so a day is archived exactly once.
+ *
+ * This hook must be mounted once, at the root of the app (AppServices).
  */
 
 "use client";
@@ -18,14 +29,18 @@
 import { useEffect } from "react";
 import { getDisciplineDay, msUntilNextReset } from "@/lib/timeUtils";
 import { useGrindStore } from "@/store/useGrindStore";
+import { useIsLeaderTab } from "@/hooks/useTabSync";
 
 export function useDailyReset(): void {
   const performDailyReset = useGrindStore((s) => s.performDailyReset);
-  const lastResetDisciplineDay = useGrindStore(
-    (s) => s.lastResetDisciplineDay
-  );
+  const hasHydrated = useGrindStore((s) => s.hasHydrated);
+  const resetHour = useGrindStore((s) => s.resetHour);
+  const timeZone = useGrindStore((s) => s.timeZone);
+  const isLeader = useIsLeaderTab();
 
   useEffect(() => {
+    if (!hasHydrated || !isLeader) return;
+
     /**
      * Core check: compare the store's last known discipline day with the
      * current one. If they differ (or if the store is brand-new), reset.
@@ -38,7 +53,7 @@ export function useDailyReset(): void {
     // Layer 1: Immediate check on mount — catches overdue resets.
     checkAndReset();
 
-    // Layer 2: Schedule the next reset precisely at 04:00 local time.
+    // Layer 2: Schedule the next reset precisely at the boundary.
     //          After it fires we re-schedule recursively.
     let timeoutId: ReturnType<typeof setTimeout>;
 
@@ -55,6 +70,7 @@ export function useDailyReset(): void {
 
     // Cleanup on unmount (navigation away, HMR, etc.)
     return () => clearTimeout(timeoutId);
+  // Runs once loaded AND leading; re-armed whenever the boundary changes
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Empty deps: this effect must only run once on mount
+  }, [hasHydrated, isLeader, resetHour, timeZone]);
 }
@@ -0,0 +1,33 @@
+/**
+ * useDayMinute.ts
+ *
+ * Returns the minutes elapsed in the current discipline day (0 at the reset
+ * hour), re-evaluated every 30 seconds — fine enough for HH:MM windows.
+ *
+ * Initialized to null to avoid a hydration mismatch between server render
+ * and client (the server has no concept of the user's wall clock).
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { minutesIntoDisciplineDay } from "@/lib/timeUtils";
+import { useGrindStore } from "@/store/useGrindStore";
+
+export function useDayMinute(): number | null {
+  const [minute, setMinute] = useState<number | null>(null);
+  // A boundary change moves the day's start — re-read immediately
+  const resetHour = useGrindStore((s) => s.resetHour);
+  const timeZone = useGrindStore((s) => s.timeZone);
+
+  useEffect(() => {
+    function update() {
+      setMinute(minutesIntoDisciplineDay());
+    }
+    update();
+    const interval = setInterval(update, 30_000);
+    return () => clearInterval(interval);
+  }, [resetHour, timeZone]);
+
+  return minute;
+}
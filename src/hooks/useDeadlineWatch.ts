@@ -0,0 +1,32 @@
+/**
+ * useDeadlineWatch.ts
+ *
+ * Records deadlines that pass on incomplete tasks (and, if enabled, logs
+ * them as failures) — see recordMissedDeadlines in the store.
+ *
+ * Checks whenever the day minute advances, so a deadline that passed while
+ * the app was closed is caught on the next mount. Only the leader tab
+ * checks (see lib/tabSync.ts); the others receive the events through sync,
+ * so each deadline is recorded exactly once.
+ *
+ * This hook must be mounted once, at the root of the app (AppServices).
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useGrindStore } from "@/store/useGrindStore";
+import { useIsLeaderTab } from "@/hooks/useTabSync";
+import { useDayMinute } from "@/hooks/useDayMinute";
+
+export function useDeadlineWatch(): void {
+  const recordMissedDeadlines = useGrindStore((s) => s.recordMissedDeadlines);
+  const hasHydrated = useGrindStore((s) => s.hasHydrated);
+  const isLeader = useIsLeaderTab();
+  const minute = useDayMinute();
+
+  useEffect(() => {
+    if (!hasHydrated || !isLeader || minute === null) return;
+    recordMissedDeadlines();
+  }, [hasHydrated, isLeader, minute, recordMissedDeadlines]);
+}
@@ -0,0 +1,28 @@
+/**
+ * useTabSync.ts
+ *
+ * Keeps this tab's store in sync with every other open GrindOS tab
+ * (see lib/tabSync.ts), and exposes whether this tab is the leader —
+ * the single tab that runs scheduled work such as the daily reset.
+ *
+ * useTabSync must be mounted once, at the root of the app (AppServices).
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useGrindStore } from "@/store/useGrindStore";
+import { connectTabSync, onLeadership } from "@/lib/tabSync";
+
+export function useTabSync(): void {
+  useEffect(() => connectTabSync(useGrindStore), []);
+}
+
+/** Becomes true once this tab holds the leader lock; never reverts. */
+export function useIsLeaderTab(): boolean {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => onLeadership(() => setIsLeader(true)), []);
+
+  return isLeader;
+}
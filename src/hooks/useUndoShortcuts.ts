@@ -0,0 +1,48 @@
+/**
+ * useUndoShortcuts.ts
+ *
+ * Global keyboard shortcuts for the store's undo journal:
+ *   Ctrl/⌘ + Z          → undo
+ *   Ctrl/⌘ + Shift + Z  → redo
+ *   Ctrl/⌘ + Y          → redo
+ *
+ * Ignored while typing in a text field, so native text undo still works.
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useGrindStore } from "@/store/useGrindStore";
+
+export function useUndoShortcuts(): void {
+  const undo = useGrindStore((s) => s.undo);
+  const redo = useGrindStore((s) => s.redo);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,106 @@
+/**
+ * activityLog.ts
+ *
+ * Event-sourced activity log helpers.
+ *
+ * Every meaningful action appends a timestamped ActivityEvent tied to the
+ * discipline day it happened in. The completion booleans in the store are a
+ * cache of this log: replaying a day's task events yields the same
+ * completion map, plus WHEN each task was completed.
+ *
+ * The log is chronological (ids are ISO-timestamp prefixed). Its days are
+ * not strictly ordered — a day boundary moved back and forth, or a merge
+ * sorting by time, can interleave them — so per-day queries filter the
+ * whole log rather than stop at the first older day.
+ */
+
+import type {
+  ActivityEvent,
+  ActivityEventType,
+} from "@/store/useGrindStore";
+import { getDisciplineDay } from "@/lib/timeUtils";
+
+/**
+ * Creates an event stamped with `at` (default: now) and its discipline day,
+ * or `boardDay` if that is later (the day on the board outlives its
+ * boundary when the reset hour moves later). An earlier `at` is only for
+ * something that happened while no tab was open, appended before anything
+ * newer.
+ */
+export function createEvent(
+  type: ActivityEventType,
+  fields: Pick<ActivityEvent, "taskId" | "data"> = {},
+  at: Date = new Date(),
+  boardDay: string = ""
+): ActivityEvent {
+  const timestamp = at.toISOString();
+  const day = getDisciplineDay(at);
+  return {
+    id: `${timestamp}_${Math.random().toString(36).slice(2, 7)}`,
+    type,
+    timestamp,
+    disciplineDay: boardDay > day ? boardDay : day,
+    ...fields,
+  };
+}
+
+/** Returns a new log with `events` appended */
+export function appendEvents(
+  log: ActivityEvent[],
+  ...events: ActivityEvent[]
+): ActivityEvent[] {
+  return [...log, ...events];
+}
+
+/** All events of one discipline day, oldest first */
+export function eventsForDay(
+  log: ActivityEvent[],
+  disciplineDay: string
+): ActivityEvent[] {
+  return log.filter((event) => event.disciplineDay === disciplineDay);
+}
+
+/**
+ * Replays a day's task events. Returns, per task id, the ISO timestamp of
+ * its current completion — tasks absent from the map are not complete.
+ */
+export function deriveCompletionTimes(
+  log: ActivityEvent[],
+  disciplineDay: string
+): Record<string, string> {
+  const completedAt: Record<string, string> = {};
+  for (const event of eventsForDay(log, disciplineDay)) {
+    if (!event.taskId) continue;
+    if (event.type === "task_completed") {
+      completedAt[event.taskId] = event.timestamp;
+    } else if (event.type === "task_uncompleted") {
+      delete completedAt[event.taskId];
+    }
+  }
+  return completedAt;
+}
+
+/**
+ * Minutes between protocol initiation and the first task action (timer
+ * start, logged progress or completion) of the day. Null if either hasn't happened.
+ */
+export function minutesToFirstAction(
+  log: ActivityEvent[],
+  disciplineDay: string
+): number | null {
+  const events = eventsForDay(log, disciplineDay);
+  const initiated = events.find((e) => e.type === "protocol_initiated");
+  if (!initiated) return null;
+  const first = events.find(
+    (e) =>
+      e.timestamp >= initiated.timestamp &&
+      (e.type === "pomodoro_started" ||
+        e.type === "task_progress" ||
+        e.type === "task_completed")
+  );
+  if (!first) return null;
+  const ms =
+    new Date(first.timestamp).getTime() -
+    new Date(initiated.timestamp).getTime();
+  return Math.round(ms / 60_000);
+}
@@ -0,0 +1,189 @@
+/**
+ * backupUtils.ts
+ *
+ * Full-state JSON backup and restore.
+ *
+ * A backup file wraps the persisted slice of the store together with the
+ * schema version it was written at, so a file exported by an older build is
+ * upgraded through the same migration chain as localStorage on load.
+ *
+ * Restore is two-step: parseBackup() validates a file, previewRestore()
+ * describes what replace/merge would change, and the caller commits the
+ * result of resolveRestore() through the store's restoreState action.
+ */
+
+import {
+  GrindState,
+  PersistedGrindState,
+  pickPersisted,
+} from "@/store/useGrindStore";
+import {
+  STORE_VERSION,
+  migratePersistedState,
+  validatePersistedState,
+} from "@/store/migrations";
+import { mergeDeviceHistories } from "@/lib/mergeUtils";
+import { formatResetHour } from "@/lib/timeUtils";
+import { describePolicy } from "@/lib/streakUtils";
+
+/** Marker identifying a GrindOS backup file */
+export const BACKUP_FORMAT = "grindos-backup";
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  /** Schema version of `state` (see migrations.ts) */
+  schemaVersion: number;
+  /** ISO timestamp of export */
+  exportedAt: string;
+  state: PersistedGrindState;
+}
+
+export type RestoreMode = "replace" | "merge";
+
+export type ParseBackupResult =
+  | { ok: true; backup: BackupFile }
+  | { ok: false; errors: string[] };
+
+/** One line of the restore preview: a collection and its size before/after */
+export interface RestorePreviewRow {
+  label: string;
+  current: string;
+  result: string;
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+export function createBackup(state: GrindState): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: STORE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: pickPersisted(state),
+  };
+}
+
+/**
+ * Triggers a browser download of the backup as a .json file.
+ */
+export function downloadBackup(backup: BackupFile): void {
+  const json = JSON.stringify(backup, null, 2);
+  const blob = new Blob([json], { type: "application/json;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `grindos-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parses and validates a backup file's text. Older schema versions are
+ * migrated forward; nothing is written to the store here.
+ */
+export function parseBackup(text: string): ParseBackupResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: ["file is not valid JSON"] };
+  }
+
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    (parsed as { format?: unknown }).format !== BACKUP_FORMAT
+  ) {
+    return { ok: false, errors: ["file is not a GrindOS backup"] };
+  }
+
+  const file = parsed as Partial<BackupFile>;
+  if (typeof file.schemaVersion !== "number") {
+    return { ok: false, errors: ["backup has no schema version"] };
+  }
+
+  const state = migratePersistedState(file.state, file.schemaVersion);
+  const errors = validatePersistedState(state);
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      schemaVersion: STORE_VERSION,
+      exportedAt:
+        typeof file.exportedAt === "string" ? file.exportedAt : "unknown",
+      state: state as PersistedGrindState,
+    },
+  };
+}
+
+/**
+ * Computes the persisted state that a restore would produce.
+ *
+ * replace — the backup wins wholesale, except for its pomodoro timer,
+ *           which stopped counting when the file was exported.
+ * merge   — the backup is treated as another device's history and merged
+ *           into local state (see mergeUtils for the conflict rules); a
+ *           local timer keeps running.
+ */
+export function resolveRestore(
+  current: PersistedGrindState,
+  incoming: PersistedGrindState,
+  mode: RestoreMode
+): PersistedGrindState {
+  return mode === "replace"
+    ? { ...incoming, activePomodoro: null }
+    : mergeDeviceHistories(current, incoming);
+}
+
+/**
+ * Summarises how each part of the persisted state changes under a restore.
+ */
+export function previewRestore(
+  current: PersistedGrindState,
+  incoming: PersistedGrindState,
+  mode: RestoreMode
+): RestorePreviewRow[] {
+  const result = resolveRestore(current, incoming, mode);
+  const size = (collection: object) => String(Object.keys(collection).length);
+
+  const rows: Array<[string, (s: PersistedGrindState) => string]> = [
+    ["DAY RECORDS", (s) => size(s.dayHistory)],
+    ["WEEK RECORDS", (s) => size(s.weekHistory)],
+    ["FAILURES", (s) => size(s.failureHistory)],
+    ["WEIGHT ENTRIES", (s) => size(s.weightLog)],
+    ["AMENDMENTS", (s) => size(s.amendments)],
+    ["FOCUS SESSIONS", (s) => size(s.pomodoroSessions)],
+    ["ACTIVITY EVENTS", (s) => size(s.activityLog)],
+    ["TASKS", (s) => size(s.taskCatalog)],
+    ["INTENTS", (s) => size(s.dailyIntents)],
+    [
+      "STREAK",
+      (s) =>
+        `${s.streak}d${s.freezeTokens > 0 ? ` + ${s.freezeTokens} FREEZE` : ""}`,
+    ],
+    ["STREAK POLICY", (s) => describePolicy(s.streakPolicy)],
+    ["LAST RESET", (s) => s.lastResetDisciplineDay || "—"],
+    [
+      "SETTINGS",
+      (s) =>
+        `PREREQS ${s.enforceTaskOrder ? "ON" : "OFF"} / POMO ${
+          s.enforcePomodoro ? "ON" : "OFF"
+        } / DEADLINE FAIL ${s.deadlineFailures ? "ON" : "OFF"} / CORRECTIONS ${
+          s.correctionWindowHours > 0 ? `${s.correctionWindowHours}H` : "OFF"
+        } / RESET ${formatResetHour(s.resetHour)} ${s.timeZone ?? "DEVICE"} / ${
+          s.dashboardView === "runSheet" ? "RUN SHEET" : "PANELS"
+        }`,
+    ],
+  ];
+
+  return rows.map(([label, describe]) => ({
+    label,
+    current: describe(current),
+    result: describe(result),
+  }));
+}
@@ -0,0 +1,122 @@
+/**
+ * collections.ts
+ *
+ * Keyed views of the store's growing collections, shared by the IndexedDB
+ * adapter and cross-tab sync. Both need "what changed between two versions
+ * of this array/record", and both rely on the store updating immutably:
+ * an unchanged entry keeps its reference, so a diff is a reference check
+ * per entry rather than a deep comparison.
+ *
+ *   list — array of objects, keyed by one of their fields (chronological)
+ *   map  — plain Record<string, T>, keyed by its own keys
+ *
+ * Lists only grow at the end (or are cut back there, by an undo), so
+ * diffCollection() reads just the changed tail of a list: a toggle costs
+ * the same however long the activity log has grown.
+ */
+
+export type CollectionShape = { kind: "list"; key: string } | { kind: "map" };
+
+/** Append-only collections of the persisted state */
+export const COLLECTIONS = {
+  failureHistory: { kind: "list", key: "timestamp" },
+  weightLog: { kind: "list", key: "timestamp" },
+  amendments: { kind: "list", key: "timestamp" },
+  pomodoroSessions: { kind: "list", key: "timestamp" },
+  dayHistory: { kind: "map" },
+  weekHistory: { kind: "map" },
+  dailyIntents: { kind: "map" },
+  dailyMoods: { kind: "map" },
+  activityLog: { kind: "list", key: "id" },
+} as const satisfies Record<string, CollectionShape>;
+
+export type CollectionName = keyof typeof COLLECTIONS;
+export const COLLECTION_NAMES = Object.keys(COLLECTIONS) as CollectionName[];
+
+/** Entries written or removed between two versions of a collection */
+export interface CollectionDelta {
+  puts: Array<[string, unknown]>;
+  deletes: string[];
+}
+
+export function toEntryMap(
+  shape: CollectionShape,
+  value: unknown
+): Map<string, unknown> {
+  if (shape.kind === "list") {
+    const list = (value ?? []) as Array<Record<string, unknown>>;
+    return new Map(list.map((entry) => [String(entry[shape.key]), entry]));
+  }
+  return new Map(Object.entries((value ?? {}) as Record<string, unknown>));
+}
+
+export function fromEntryMap(
+  shape: CollectionShape,
+  entries: Map<string, unknown>
+): unknown {
+  if (shape.kind === "map") return Object.fromEntries(entries);
+  // List keys are ISO timestamps (or ids prefixed by one), so key order is
+  // chronological order
+  return Array.from(entries.keys())
+    .sort()
+    .map((key) => entries.get(key));
+}
+
+/** Reference diff of two entry maps; `previous` undefined = everything new */
+export function diffEntries(
+  previous: Map<string, unknown> | undefined,
+  next: Map<string, unknown>
+): CollectionDelta {
+  const puts: Array<[string, unknown]> = [];
+  const deletes: string[] = [];
+  next.forEach((entry, key) => {
+    if (previous?.get(key) !== entry) puts.push([key, entry]);
+  });
+  previous?.forEach((_entry, key) => {
+    if (!next.has(key)) deletes.push(key);
+  });
+  return { puts, deletes };
+}
+
+/**
+ * Delta between two versions of a collection. A list whose first and last
+ * shared entries are unchanged was only appended to or cut back, and is
+ * diffed from its tail; anything else gets a full entry diff.
+ */
+export function diffCollection(
+  shape: CollectionShape,
+  previous: unknown,
+  next: unknown
+): CollectionDelta {
+  if (shape.kind === "list") {
+    const before = (previous ?? []) as Array<Record<string, unknown>>;
+    const after = (next ?? []) as Array<Record<string, unknown>>;
+    const shared = Math.min(before.length, after.length);
+    if (
+      shared === 0 ||
+      (before[0] === after[0] && before[shared - 1] === after[shared - 1])
+    ) {
+      const key = (entry: Record<string, unknown>) => String(entry[shape.key]);
+      return {
+        puts: after.slice(shared).map((entry) => [key(entry), entry]),
+        deletes: before.slice(shared).map(key),
+      };
+    }
+  }
+  return diffEntries(toEntryMap(shape, previous), toEntryMap(shape, next));
+}
+
+/**
+ * Applies a delta to a collection, reusing the references of every entry
+ * the delta does not touch.
+ */
+export function applyDelta(
+  shape: CollectionShape,
+  value: unknown,
+  delta: CollectionDelta
+): unknown {
+  const entries = toEntryMap(shape, value);
+  for (const [key, entry] of delta.puts) entries.set(key, entry);
+  for (const key of delta.deletes) entries.delete(key);
+  return fromEntryMap(shape, entries);
+}
@@ -0,0 +1,140 @@
+/**
+ * correctionUtils.ts
+ *
+ * Retroactive correction window. For a configurable number of hours after
+ * the day boundary, the day the last reset closed can still be amended —
+ * e.g. a task finished at 03:50 but ticked only after the 04:00 reset.
+ *
+ * Rules:
+ *   - Only the immediately previous discipline day, and only while the day
+ *     on the board is the one that follows it
+ *   - Only days the app was opened (records with per-task results)
+ *   - Quota sessions can't be amended — they feed week windows already
+ *     judged at the reset
+ *
+ * The reset keeps the streak status the closed day was judged from
+ * (`correctableDay`), so an amendment re-judges just that day. Every
+ * amendment is appended to `amendments` with the values it replaced.
+ */
+
+import type {
+  CorrectableDay,
+  DayRecord,
+  PersistedGrindState,
+  StreakPolicy,
+  TaskResult,
+} from "@/store/useGrindStore";
+import {
+  getDisciplineDay,
+  getPreviousDisciplineDay,
+  minutesIntoDisciplineDay,
+} from "@/lib/timeUtils";
+import { replayStreak } from "@/lib/streakUtils";
+
+/** Window lengths offered in the editor, in hours (0 = off) */
+export const CORRECTION_WINDOW_HOURS = [0, 1, 2, 3, 6, 12];
+
+export const DEFAULT_CORRECTION_WINDOW_HOURS = 2;
+
+type CorrectionState = Pick<
+  PersistedGrindState,
+  | "correctionWindowHours"
+  | "correctableDay"
+  | "lastResetDisciplineDay"
+  | "dayHistory"
+>;
+
+/** Minutes of the correction window left at `now` (≤ 0 = closed) */
+export function correctionMinutesLeft(
+  windowHours: number,
+  now: Date = new Date()
+): number {
+  return windowHours * 60 - minutesIntoDisciplineDay(now);
+}
+
+/** The discipline day open for correction at `now`, or null */
+export function correctionTarget(
+  state: CorrectionState,
+  now: Date = new Date()
+): string | null {
+  const { correctableDay, lastResetDisciplineDay } = state;
+  if (!correctableDay || lastResetDisciplineDay === "") return null;
+  if (getDisciplineDay(now) !== lastResetDisciplineDay) return null;
+  if (
+    correctableDay.disciplineDay !==
+    getPreviousDisciplineDay(lastResetDisciplineDay)
+  ) {
+    return null;
+  }
+  if (correctionMinutesLeft(state.correctionWindowHours, now) <= 0) {
+    return null;
+  }
+  const record = state.dayHistory[correctableDay.disciplineDay];
+  if (!record?.taskResults || record.unopened) return null;
+  return correctableDay.disciplineDay;
+}
+
+/** Share of an archived task done, 0–1 (mirrors taskFraction) */
+function resultFraction(result: TaskResult): number {
+  if (result.done) return 1;
+  if (result.target && result.target.amount > 0) {
+    return Math.min((result.amount ?? 0) / result.target.amount, 1);
+  }
+  if (result.checklist && result.checklist.length > 0) {
+    const ticked = result.checklist.filter((item) => item.done).length;
+    return ticked / result.checklist.length;
+  }
+  return 0;
+}
+
+/**
+ * `record` with task `taskId` marked done / not done and the day's totals
+ * recounted. A corrected completion has no known time (completedAt null).
+ */
+export function amendRecord(
+  record: DayRecord,
+  taskId: string,
+  done: boolean
+): DayRecord {
+  const taskResults = (record.taskResults ?? []).map((result) =>
+    result.id === taskId
+      ? {
+          ...result,
+          done,
+          completedAt: done ? result.completedAt : null,
+          amended: true,
+        }
+      : result
+  );
+  const counted = taskResults.filter((result) => !result.quota);
+  if (counted.length === 0) return { ...record, taskResults, amended: true };
+
+  const tasksCompleted = counted.filter((result) => result.done).length;
+  const sum = counted.reduce((acc, result) => acc + resultFraction(result), 0);
+  return {
+    ...record,
+    taskResults,
+    tasksCompleted,
+    complete: tasksCompleted === counted.length,
+    progressPercent: Math.round((sum / counted.length) * 100),
+    amended: true,
+  };
+}
+
+/**
+ * After history was re-judged wholesale (merge, recompute), re-derives the
+ * status the correctable day is judged from, so a later amendment starts
+ * from the same place the replay did.
+ */
+export function rebaseCorrection(
+  correctableDay: CorrectableDay | null,
+  dayHistory: Record<string, DayRecord>,
+  policy: StreakPolicy
+): CorrectableDay | null {
+  if (!correctableDay) return null;
+  return {
+    disciplineDay: correctableDay.disciplineDay,
+    before: replayStreak(dayHistory, correctableDay.disciplineDay, policy)
+      .status,
+  };
+}
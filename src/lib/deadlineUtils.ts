@@ -0,0 +1,83 @@
+/**
+ * deadlineUtils.ts
+ *
+ * Optional time windows on tasks: an earliest start and/or a deadline, both
+ * wall-clock "HH:MM" in the home zone, placed within the discipline day
+ * (see timeOfDayOffset — with a 04:00 reset, "02:00" is late that night).
+ * A deadline at the reset hour itself means the end of the day, not its
+ * first minute.
+ *
+ * States of an incomplete task on the board:
+ *   - upcoming — before its earliest start
+ *   - open     — inside its window
+ *   - overdue  — past its deadline
+ *
+ * Completing after the deadline still counts for the day, but the archived
+ * TaskResult and the report flag it as late. With DEADLINES COUNT AS
+ * FAILURES on, a deadline passing on an incomplete task also logs a failure
+ * (once per task and day — see recordMissedDeadlines in the store).
+ */
+
+import type { Task } from "@/store/useGrindStore";
+import { minutesIntoDisciplineDay, timeOfDayOffset } from "@/lib/timeUtils";
+
+export type WindowState = "upcoming" | "open" | "overdue";
+
+/** "HH:MM", 24h */
+export const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Position of a deadline within the discipline day, in minutes (1–1440) */
+export function deadlineOffset(deadline: string): number {
+  return timeOfDayOffset(deadline) || MINUTES_PER_DAY;
+}
+
+/** Where an incomplete task stands at `minutesNow` (null = no window) */
+export function windowState(
+  task: Task,
+  minutesNow: number
+): WindowState | null {
+  if (!task.earliestStart && !task.deadline) return null;
+  if (task.deadline && minutesNow >= deadlineOffset(task.deadline)) {
+    return "overdue";
+  }
+  if (task.earliestStart && minutesNow < timeOfDayOffset(task.earliestStart)) {
+    return "upcoming";
+  }
+  return "open";
+}
+
+/** True if `completedAt` fell after the task's deadline */
+export function isLateCompletion(
+  task: Pick<Task, "deadline">,
+  completedAt: string | null
+): boolean {
+  if (!task.deadline || !completedAt) return false;
+  return (
+    minutesIntoDisciplineDay(new Date(completedAt)) >=
+    deadlineOffset(task.deadline)
+  );
+}
+
+/** Incomplete tasks on `board` whose deadline has passed at `minutesNow` */
+export function overdueTasks(
+  board: Task[],
+  completions: Record<string, boolean>,
+  minutesNow: number
+): Task[] {
+  return board.filter(
+    (task) =>
+      !completions[task.id] && windowState(task, minutesNow) === "overdue"
+  );
+}
+
+/** Short label, e.g. "06:00–09:00", "BY 09:00", "FROM 18:00" */
+export function describeWindow(task: Task): string {
+  if (task.earliestStart && task.deadline) {
+    return `${task.earliestStart}–${task.deadline}`;
+  }
+  if (task.deadline) return `BY ${task.deadline}`;
+  if (task.earliestStart) return `FROM ${task.earliestStart}`;
+  return "ANY TIME";
+}
@@ -1,17 +1,38 @@
 /**
  * exportUtils.ts
  *
- * Generates a plain-text accountability report for the current discipline day.
- * All data comes from the Zustand store snapshot passed in.
+ * Generates a plain-text accountability report for the day on the board
+ * (`lastResetDisciplineDay` — the clock may already be past the reset hour
+ * when the daily reset hasn't run yet). All data comes from the Zustand
+ * store snapshot passed in. If the previous
+ * day was amended after it closed, a CORRECTIONS section says so. Pomodoro
+ * sessions of the day are listed with the focused time per task.
  * Returns a string — the caller handles the download.
  */
 
 import {
   GrindState,
-  TASK_DEFINITIONS,
-  TaskId,
+  boardProgressPercent,
+  boardTasks,
+  checklistKey,
+  isBoardComplete,
+  isRestDay,
 } from "@/store/useGrindStore";
-import { getDisciplineDay, formatLocalTime } from "@/lib/timeUtils";
+import { getPreviousDisciplineDay, formatLocalTime } from "@/lib/timeUtils";
+import {
+  deriveCompletionTimes,
+  minutesToFirstAction,
+} from "@/lib/activityLog";
+import { quotaStatus, quotaTasks } from "@/lib/quotaUtils";
+import { describeWindow, isLateCompletion } from "@/lib/deadlineUtils";
+import { dayVerdicts, streakRuns, streakSummary } from "@/lib/streakUtils";
+import {
+  SESSION_OUTCOME_LABELS,
+  focusMinutes,
+  focusMinutesByTask,
+  formatFocus,
+  sessionsForDay,
+} from "@/lib/pomodoroUtils";
 
 const MOOD_LABELS: Record<number, string> = {
   0: "NOT SET",
@@ -23,7 +44,8 @@ const MOOD_LABELS: Record<number, string> = {
 };
 
 export function generateDailyReport(state: GrindState): string {
-  const disciplineDay = getDisciplineDay();
+  const disciplineDay = state.lastResetDisciplineDay;
+  const completedAt = deriveCompletionTimes(state.activityLog, disciplineDay);
   const lines: string[] = [];
 
   const hr = "═".repeat(60);
@@ -36,7 +58,17 @@ export function generateDailyReport(state: GrindState): string {
   lines.push("");
   lines.push(`  DISCIPLINE DAY : ${disciplineDay}`);
   lines.push(`  GENERATED AT  : ${new Date().toLocaleString()}`);
+  const { longest } = streakSummary(
+    streakRuns(
+      dayVerdicts(
+        state.dayHistory,
+        state.lastResetDisciplineDay,
+        state.streakPolicy
+      )
+    )
+  );
   lines.push(`  STREAK        : ${state.streak} consecutive days`);
+  lines.push(`  BEST STREAK   : ${Math.max(longest, state.streak)} days`);
   lines.push("");
 
   // Protocol
@@ -52,54 +84,158 @@ export function generateDailyReport(state: GrindState): string {
   );
   const intent = state.dailyIntents[disciplineDay] ?? "—";
   lines.push(`  OBJECTIVE     : ${intent}`);
+  const firstAction = minutesToFirstAction(state.activityLog, disciplineDay);
+  lines.push(
+    `  FIRST ACTION  : ${
+      firstAction === null ? "—" : `+${firstAction}m after initiation`
+    }`
+  );
   lines.push("");
 
-  // Built-in tasks
+  // Tasks scheduled today, in board order
+  const board = boardTasks(state.taskCatalog, disciplineDay);
   lines.push(divider);
-  lines.push("  BUILT-IN TASKS");
+  lines.push("  TASKS");
   lines.push(divider);
+  if (isRestDay(state.taskCatalog, disciplineDay)) {
+    lines.push("  REST DAY — NO DAILY TASKS SCHEDULED");
+  }
 
-  let builtinDone = 0;
-  for (const task of TASK_DEFINITIONS) {
-    const done = state.tasks[task.id as TaskId];
+  let totalDone = 0;
+  let totalLate = 0;
+  for (const task of board) {
+    const done = state.completions[task.id] ?? false;
+    const late = done && isLateCompletion(task, completedAt[task.id] ?? null);
     const marker = done ? "[✓]" : "[ ]";
-    lines.push(`  ${marker}  ${task.label.padEnd(30)} ${task.duration}`);
-    if (done) builtinDone++;
+    lines.push(
+      `  ${marker}  ${task.label.padEnd(30)} ${task.duration.padEnd(6)} ${
+        done ? formatLocalTime(completedAt[task.id] ?? null) : ""
+      }${late ? "  LATE" : ""}`
+    );
+    if (task.earliestStart || task.deadline) {
+      lines.push(`        WINDOW ${describeWindow(task)}`);
+    }
+    if (task.target) {
+      lines.push(
+        `        ${state.progress[task.id] ?? 0}/${task.target.amount} ${
+          task.target.unit
+        }`
+      );
+    }
+    for (const item of task.checklist ?? []) {
+      const ticked = state.checkedItems[checklistKey(task.id, item.id)];
+      lines.push(`        ${ticked ? "[✓]" : "[ ]"} ${item.label}`);
+    }
+    if (done) totalDone++;
+    if (late) totalLate++;
   }
   lines.push("");
 
-  // Custom tasks
-  if (state.customTasks.length > 0) {
+  // Weekly quotas — sessions so far in each window
+  const weekly = quotaTasks(state.taskCatalog);
+  if (weekly.length > 0) {
     lines.push(divider);
-    lines.push("  CUSTOM TASKS");
+    lines.push("  WEEKLY QUOTAS");
     lines.push(divider);
-    let customDone = 0;
-    for (const task of state.customTasks) {
-      const done = state.customTaskCompletions[task.id] ?? false;
-      const marker = done ? "[✓]" : "[ ]";
-      lines.push(`  ${marker}  ${task.label.padEnd(30)} ${task.duration}`);
-      if (done) customDone++;
+    for (const task of weekly) {
+      const status = quotaStatus(task, state.dayHistory, {
+        day: disciplineDay,
+        completions: state.completions,
+      });
+      const window =
+        task.quota.period === "calendarWeek" ? "THIS WEEK" : "LAST 7 DAYS";
+      lines.push(
+        `  ${status.met ? "[✓]" : "[ ]"}  ${task.label.padEnd(30)} ${
+          status.count
+        }/${status.target} ${window}`
+      );
+    }
+    lines.push("");
+  }
+
+  // Pomodoro sessions — each interval, then focus per task
+  const sessions = sessionsForDay(state.pomodoroSessions, disciplineDay);
+  if (sessions.length > 0) {
+    lines.push(divider);
+    lines.push("  FOCUS SESSIONS");
+    lines.push(divider);
+    for (const session of sessions) {
+      const focused = formatFocus(Math.round(session.focusedMs / 60_000));
+      const planned = Math.round(session.plannedMs / 60_000);
+      lines.push(
+        `  ${formatLocalTime(session.timestamp)}  ${session.label.padEnd(30)} ${
+          focused.padEnd(7)
+        } OF ${planned}m  ${SESSION_OUTCOME_LABELS[session.outcome]}`
+      );
+    }
+    lines.push("");
+    const labels = new Map(sessions.map((s) => [s.taskId, s.label]));
+    for (const [taskId, minutes] of Object.entries(
+      focusMinutesByTask(state.pomodoroSessions, disciplineDay)
+    )) {
+      const label = labels.get(taskId) ?? taskId;
+      lines.push(`  TOTAL  ${label.padEnd(30)} ${formatFocus(minutes)}`);
     }
-    lines.push(
-      `\n  CUSTOM: ${customDone}/${state.customTasks.length} completed`
-    );
     lines.push("");
   }
 
   // Summary
-  const totalTasks = TASK_DEFINITIONS.length + state.customTasks.length;
-  const totalDone =
-    builtinDone +
-    state.customTasks.filter((t) => state.customTaskCompletions[t.id]).length;
-  const allComplete = totalDone === totalTasks;
+  const totalTasks = board.length;
+  const allComplete = isBoardComplete(
+    state.taskCatalog,
+    disciplineDay,
+    state.completions
+  );
 
   lines.push(divider);
   lines.push("  SUMMARY");
   lines.push(divider);
   lines.push(`  TASKS COMPLETE : ${totalDone}/${totalTasks}`);
+  if (board.some((t) => t.deadline)) {
+    lines.push(`  LATE           : ${totalLate}`);
+  }
+  lines.push(`  PROGRESS       : ${boardProgressPercent(state, disciplineDay)}%`);
+  lines.push(
+    `  FOCUS          : ${formatFocus(
+      focusMinutes(state.pomodoroSessions, disciplineDay)
+    )}`
+  );
   lines.push(`  DAY STATUS     : ${allComplete ? "✓ COMPLETE" : "INCOMPLETE"}`);
   lines.push("");
 
+  // Corrections to the previous day
+  const yesterday = getPreviousDisciplineDay(disciplineDay);
+  const corrections = state.amendments.filter(
+    (a) => a.disciplineDay === yesterday
+  );
+  if (corrections.length > 0) {
+    const amended = state.dayHistory[yesterday];
+    lines.push(divider);
+    lines.push(`  CORRECTIONS — ${yesterday} (AMENDED AFTER CLOSE)`);
+    lines.push(divider);
+    for (const a of corrections) {
+      lines.push(
+        `  ${formatLocalTime(a.timestamp)}  ${a.label.padEnd(30)} ${
+          a.wasDone ? "DONE" : "MISSED"
+        } → ${a.done ? "DONE" : "MISSED"}`
+      );
+    }
+    const original = corrections[0].original;
+    lines.push(
+      `  ORIGINAL       : ${original.tasksCompleted} TASKS${
+        original.verdict ? ` · ${original.verdict.kind.toUpperCase()}` : ""
+      } · STREAK ${original.streak}`
+    );
+    if (amended) {
+      lines.push(
+        `  NOW            : ${amended.tasksCompleted}/${amended.totalTasks} TASKS${
+          amended.verdict ? ` · ${amended.verdict.kind.toUpperCase()}` : ""
+        } · STREAK ${state.streak}`
+      );
+    }
+    lines.push("");
+  }
+
   // Failure log
   const todayFailures = state.failureHistory.filter(
     (f) => f.disciplineDay === disciplineDay
@@ -0,0 +1,267 @@
+/**
+ * idbStorage.ts
+ *
+ * IndexedDB-backed PersistStorage for the Zustand store.
+ *
+ * Layout (database "grindos"):
+ *   meta             — { version, state } per persist name, where state is
+ *                      everything EXCEPT the append-only collections below
+ *   failureHistory   — one record per FailureEvent, keyed by timestamp
+ *   weightLog        — one record per WeightEntry, keyed by timestamp
+ *   amendments       — one record per DayAmendment, keyed by timestamp
+ *   pomodoroSessions — one record per PomodoroSession, keyed by its start
+ *   dayHistory       — one DayRecord per discipline day
+ *   weekHistory      — one WeekRecord per calendar week, keyed by its Monday
+ *   dailyIntents     — intent string per discipline day
+ *   dailyMoods       — mood rating per discipline day
+ *   activityLog      — one record per ActivityEvent, keyed by its id
+ *
+ * Writes are incremental: a collection is only diffed when its reference
+ * changed since the last committed write (the store updates immutably —
+ * and a failed write's changes go out with the next one), a log is
+ * diffed from its appended tail (see diffCollection), and only the changed
+ * or removed records are touched. A checkbox toggle rewrites the small meta
+ * record and its new activity events, however many years of history exist.
+ *
+ * Migration: while IndexedDB holds no meta record, state is read from the
+ * existing localStorage key (and through it the v1 key). The localStorage
+ * copy is removed once the first IndexedDB write has committed.
+ *
+ * Falls back to plain localStorage JSON when IndexedDB is unavailable.
+ * That fallback, a failed write and an upgrade held back by a tab on the
+ * previous DB_VERSION are reported through `onError` (the store shows them
+ * in the recovery banner). An open connection closes as soon as a newer
+ * tab asks to upgrade.
+ */
+
+import {
+  createJSONStorage,
+  type PersistStorage,
+  type StorageValue,
+} from "zustand/middleware";
+import type { PersistedGrindState } from "@/store/useGrindStore";
+import { rememberRawPayload, withLegacyFallback } from "@/store/migrations";
+import {
+  COLLECTIONS,
+  COLLECTION_NAMES,
+  CollectionName,
+  diffCollection,
+  fromEntryMap,
+} from "@/lib/collections";
+
+const DB_NAME = "grindos";
+/** Bumped whenever a collection store is added (onupgradeneeded creates it) */
+const DB_VERSION = 5;
+const META_STORE = "meta";
+
+type State = PersistedGrindState;
+
+interface MetaRecord {
+  version: number | undefined;
+  state: Omit<State, CollectionName>;
+}
+
+export function createIndexedDBStorage(
+  onError: (message: string) => void
+): PersistStorage<State> | undefined {
+  const localJSONStorage = createJSONStorage<State>(() =>
+    withLegacyFallback(localStorage)
+  );
+  if (typeof indexedDB === "undefined") return localJSONStorage;
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let useLocalStorage = false;
+  /** Writes before the first load would clobber stored state — drop them */
+  let loaded = false;
+  /** True while state still lives in localStorage only */
+  let migratingFromLocalStorage = false;
+  let writeChain: Promise<void> = Promise.resolve();
+  /** Last written value of each collection, for reference-based diffing */
+  const snapshots = new Map<CollectionName, unknown>();
+
+  function openDB(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const store of [META_STORE, ...COLLECTION_NAMES]) {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+        }
+      };
+      // A tab still open on the previous version holds the upgrade back
+      request.onblocked = () => {
+        onError("IndexedDB upgrade blocked — close other GrindOS tabs");
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer tab is upgrading: let go so it isn't blocked by us
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+          onError("GrindOS was updated in another tab — reload this one");
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  }
+
+  /**
+   * Diffs a collection against what the last committed write left in the
+   * database; null = unchanged reference
+   */
+  function diffSinceWrite(name: CollectionName, value: unknown) {
+    const previous = snapshots.get(name);
+    if (snapshots.has(name) && previous === value) return null;
+    return diffCollection(COLLECTIONS[name], previous, value);
+  }
+
+  return {
+    getItem: async (name) => {
+      let db: IDBDatabase;
+      try {
+        db = await openDB();
+      } catch (err) {
+        onError(
+          `IndexedDB unavailable, saving to localStorage: ${describeError(err)}`
+        );
+        useLocalStorage = true;
+        loaded = true;
+        return localJSONStorage?.getItem(name) ?? null;
+      }
+
+      const tx = db.transaction([META_STORE, ...COLLECTION_NAMES], "readonly");
+      const metaRequest = tx.objectStore(META_STORE).get(name);
+      const collectionRequests = COLLECTION_NAMES.map((collection) => {
+        const store = tx.objectStore(collection);
+        return Promise.all([
+          requestToPromise(store.getAllKeys()),
+          requestToPromise(store.getAll()),
+        ]);
+      });
+      const [meta, ...collections] = await Promise.all([
+        requestToPromise<MetaRecord | undefined>(metaRequest),
+        ...collectionRequests,
+      ]);
+
+      if (!meta) {
+        const fromLocal = (await localJSONStorage?.getItem(name)) ?? null;
+        migratingFromLocalStorage = fromLocal !== null;
+        loaded = true;
+        return fromLocal;
+      }
+
+      const state: Record<string, unknown> = { ...meta.state };
+      COLLECTION_NAMES.forEach((collection, i) => {
+        const [keys, values] = collections[i] as [IDBValidKey[], unknown[]];
+        const entries = new Map(
+          keys.map((key, j) => [String(key), values[j]] as [string, unknown])
+        );
+        state[collection] = fromEntryMap(COLLECTIONS[collection], entries);
+        snapshots.set(collection, state[collection]);
+      });
+
+      const value: StorageValue<State> = {
+        state: state as unknown as State,
+        version: meta.version,
+      };
+      rememberRawPayload(JSON.stringify(value));
+      loaded = true;
+      return value;
+    },
+
+    setItem: (name, value) => {
+      if (useLocalStorage) return localJSONStorage?.setItem(name, value);
+      if (!loaded) return;
+
+      const core: Record<string, unknown> = { ...value.state };
+      for (const collection of COLLECTION_NAMES) delete core[collection];
+
+      writeChain = writeChain
+        .then(async () => {
+          // Diffed once the previous write has settled: a failed write
+          // leaves the snapshots alone, so its changes go out with this one
+          const diffs = COLLECTION_NAMES.map(
+            (collection) =>
+              [
+                collection,
+                diffSinceWrite(collection, value.state[collection]),
+              ] as const
+          );
+          const db = await openDB();
+          const tx = db.transaction(
+            [META_STORE, ...COLLECTION_NAMES],
+            "readwrite"
+          );
+          const meta: MetaRecord = {
+            version: value.version,
+            state: core as MetaRecord["state"],
+          };
+          tx.objectStore(META_STORE).put(meta, name);
+          for (const [collection, diff] of diffs) {
+            if (!diff) continue;
+            const store = tx.objectStore(collection);
+            for (const [key, entry] of diff.puts) store.put(entry, key);
+            for (const key of diff.deletes) store.delete(key);
+          }
+          await transactionDone(tx);
+          for (const collection of COLLECTION_NAMES) {
+            snapshots.set(collection, value.state[collection]);
+          }
+
+          if (migratingFromLocalStorage) {
+            localStorage.removeItem(name);
+            migratingFromLocalStorage = false;
+          }
+        })
+        .catch((err) => {
+          onError(`IndexedDB write failed: ${describeError(err)}`);
+        });
+      return writeChain;
+    },
+
+    removeItem: (name) => {
+      if (useLocalStorage) return localJSONStorage?.removeItem(name);
+      writeChain = writeChain
+        .then(async () => {
+          const db = await openDB();
+          const tx = db.transaction(
+            [META_STORE, ...COLLECTION_NAMES],
+            "readwrite"
+          );
+          tx.objectStore(META_STORE).delete(name);
+          for (const collection of COLLECTION_NAMES) {
+            tx.objectStore(collection).clear();
+          }
+          await transactionDone(tx);
+          snapshots.clear();
+        })
+        .catch((err) => {
+          onError(`IndexedDB clear failed: ${describeError(err)}`);
+        });
+      return writeChain;
+    },
+  };
+}
+
+// ─── IDB promise helpers ──────────────────────────────────────────────────────
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,117 @@
+/**
+ * journal.ts
+ *
+ * Undo/redo journal for user actions (task toggles, catalog edits, weight
+ * entries, failure logs).
+ *
+ * A journal entry records only what its action changed:
+ *   - keyed collections (completion maps, failure / weight / activity logs)
+ *     as per-entry deltas, so undoing one toggle can't revert a different
+ *     task toggled since — in this tab or, via sync, another one
+ *   - any other key as a whole before/after value
+ *
+ * An undone action's activity events are removed with it, so the log stays
+ * consistent with the completion maps it is replayed into. Log deltas are
+ * built from the appended entries alone (see diffCollection), so recording
+ * an action doesn't scan the whole history.
+ *
+ * The journal is ephemeral, bounded to JOURNAL_LIMIT entries, and cleared
+ * by the 04:00 reset.
+ */
+
+import type { GrindState } from "@/store/useGrindStore";
+import {
+  COLLECTIONS,
+  CollectionDelta,
+  CollectionShape,
+  applyDelta,
+  diffCollection,
+} from "@/lib/collections";
+
+/** Maximum number of undoable actions kept */
+export const JOURNAL_LIMIT = 50;
+
+/** Keys journaled entry-by-entry rather than as whole values */
+const ENTRY_SHAPES: Record<string, CollectionShape> = {
+  failureHistory: COLLECTIONS.failureHistory,
+  weightLog: COLLECTIONS.weightLog,
+  activityLog: COLLECTIONS.activityLog,
+  completions: { kind: "map" },
+  progress: { kind: "map" },
+  checkedItems: { kind: "map" },
+};
+
+type KeyChange =
+  | { key: keyof GrindState; kind: "value"; before: unknown; after: unknown }
+  | {
+      key: keyof GrindState;
+      kind: "entries";
+      forward: CollectionDelta;
+      backward: CollectionDelta;
+    };
+
+export interface JournalEntry {
+  /** Human-readable action, e.g. "CHECK READ 20 PAGES" */
+  label: string;
+  changes: KeyChange[];
+}
+
+export interface Journal {
+  past: JournalEntry[];
+  future: JournalEntry[];
+}
+
+export const EMPTY_JOURNAL: Journal = { past: [], future: [] };
+
+/** Describes how `patch` changes `state` as an undoable entry */
+export function recordChange(
+  label: string,
+  state: GrindState,
+  patch: Partial<GrindState>
+): JournalEntry {
+  const changes = (Object.keys(patch) as Array<keyof GrindState>).map(
+    (key): KeyChange => {
+      const shape = ENTRY_SHAPES[key];
+      if (!shape) {
+        return { key, kind: "value", before: state[key], after: patch[key] };
+      }
+      return {
+        key,
+        kind: "entries",
+        forward: diffCollection(shape, state[key], patch[key]),
+        backward: diffCollection(shape, patch[key], state[key]),
+      };
+    }
+  );
+  return { label, changes };
+}
+
+/** Appends an entry, dropping the oldest past the limit. Clears redo. */
+export function pushEntry(journal: Journal, entry: JournalEntry): Journal {
+  return {
+    past: [...journal.past, entry].slice(-JOURNAL_LIMIT),
+    future: [],
+  };
+}
+
+/** The state patch that undoes (`backward`) or redoes an entry */
+export function patchFor(
+  state: GrindState,
+  entry: JournalEntry,
+  direction: "backward" | "forward"
+): Partial<GrindState> {
+  const patch: Record<string, unknown> = {};
+  for (const change of entry.changes) {
+    if (change.kind === "value") {
+      patch[change.key] =
+        direction === "backward" ? change.before : change.after;
+    } else {
+      patch[change.key] = applyDelta(
+        ENTRY_SHAPES[change.key],
+        state[change.key],
+        change[direction]
+      );
+    }
+  }
+  return patch as Partial<GrindState>;
+}
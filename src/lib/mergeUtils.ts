@@ -0,0 +1,160 @@
+/**
+ * mergeUtils.ts
+ *
+ * Merges another device's export into the local persisted state.
+ *
+ * Rules:
+ *   - Failure events, weight entries, amendments and pomodoro sessions:
+ *     union, deduped by timestamp
+ *   - Activity events: union, deduped by id
+ *   - Task catalog: union by id (local definition and order win; tasks
+ *     only the other device has are appended hidden, so they don't join
+ *     today's board until the user shows them in the editor)
+ *   - Intents / moods: union by discipline day (local wins)
+ *   - Day records: per-day conflict resolution via pickMoreCompleteDay()
+ *   - Week records: union by week; on conflict the record counting more
+ *     quota sessions wins (ties keep local)
+ *   - The other device's live day, if older than ours and never archived
+ *     there, is archived from its task state so the day isn't lost
+ *   - Streak, freeze tokens and day verdicts: replayed from the merged day
+ *     history under the local streak policy; the local correctable day is
+ *     rebased onto the replay
+ *
+ * Today's live completions, the running pomodoro timer, protocol start and
+ * settings stay local.
+ */
+
+import {
+  DayRecord,
+  PersistedGrindState,
+  WeekRecord,
+  archiveDay,
+} from "@/store/useGrindStore";
+import { rejudgeHistory } from "@/lib/streakUtils";
+import { rebaseCorrection } from "@/lib/correctionUtils";
+
+export function mergeDeviceHistories(
+  local: PersistedGrindState,
+  incoming: PersistedGrindState
+): PersistedGrindState {
+  const failureHistory = unionByTimestamp(
+    local.failureHistory,
+    incoming.failureHistory
+  );
+
+  // The other device may have closed its app before its last day's reset
+  const incomingHistory = { ...incoming.dayHistory };
+  const incomingLiveDay = incoming.lastResetDisciplineDay;
+  if (
+    incomingLiveDay !== "" &&
+    incomingLiveDay < local.lastResetDisciplineDay &&
+    !incomingHistory[incomingLiveDay]
+  ) {
+    incomingHistory[incomingLiveDay] = archiveDay(incoming, incomingLiveDay);
+  }
+
+  const dayHistory: Record<string, DayRecord> = { ...local.dayHistory };
+  for (const [day, theirs] of Object.entries(incomingHistory)) {
+    const ours = dayHistory[day];
+    const winner = ours ? pickMoreCompleteDay(ours, theirs) : theirs;
+    const loser = winner === ours ? theirs : ours;
+    dayHistory[day] = {
+      ...winner,
+      // Keep whichever device captured the intent / mood
+      intent: winner.intent || loser?.intent || "",
+      mood: winner.mood || loser?.mood || 0,
+    };
+  }
+
+  // Failure counts follow the merged event log
+  for (const record of Object.values(dayHistory)) {
+    const merged = failureHistory.filter(
+      (f) => f.disciplineDay === record.disciplineDay
+    ).length;
+    if (merged > record.failureCount) {
+      dayHistory[record.disciplineDay] = { ...record, failureCount: merged };
+    }
+  }
+
+  const weekHistory: Record<string, WeekRecord> = { ...local.weekHistory };
+  for (const [week, theirs] of Object.entries(incoming.weekHistory)) {
+    const ours = weekHistory[week];
+    const sessions = (r: WeekRecord) =>
+      r.quotas.reduce((sum, q) => sum + q.count, 0);
+    if (!ours || sessions(theirs) > sessions(ours)) weekHistory[week] = theirs;
+  }
+
+  const rejudged = rejudgeHistory(
+    dayHistory,
+    local.lastResetDisciplineDay,
+    local.streakPolicy
+  );
+
+  const localTaskIds = new Set(local.taskCatalog.map((t) => t.id));
+
+  return {
+    ...local,
+    taskCatalog: [
+      ...local.taskCatalog,
+      ...incoming.taskCatalog
+        .filter((t) => !localTaskIds.has(t.id))
+        .map((t) => ({ ...t, hidden: true })),
+    ],
+    failureHistory,
+    weightLog: unionByTimestamp(local.weightLog, incoming.weightLog),
+    amendments: unionByTimestamp(local.amendments, incoming.amendments),
+    pomodoroSessions: unionByTimestamp(
+      local.pomodoroSessions,
+      incoming.pomodoroSessions
+    ),
+    activityLog: unionById(local.activityLog, incoming.activityLog),
+    dailyIntents: { ...incoming.dailyIntents, ...local.dailyIntents },
+    dailyMoods: { ...incoming.dailyMoods, ...local.dailyMoods },
+    dayHistory: rejudged.dayHistory,
+    weekHistory,
+    streak: rejudged.status.streak,
+    freezeTokens: rejudged.status.freezes,
+    freezeProgress: rejudged.status.freezeProgress,
+    correctableDay: rebaseCorrection(
+      local.correctableDay,
+      rejudged.dayHistory,
+      local.streakPolicy
+    ),
+  };
+}
+
+/**
+ * Chooses between two records of the same discipline day.
+ * Order of precedence: complete beats incomplete, a day that was opened
+ * beats a backfilled unopened one, then the higher completion ratio, then
+ * more tasks completed. Ties keep `a` (local).
+ */
+export function pickMoreCompleteDay(a: DayRecord, b: DayRecord): DayRecord {
+  if (a.complete !== b.complete) return a.complete ? a : b;
+  if (!!a.unopened !== !!b.unopened) return a.unopened ? b : a;
+
+  const ratio = (r: DayRecord) =>
+    r.totalTasks > 0 ? r.tasksCompleted / r.totalTasks : 0;
+  if (ratio(a) !== ratio(b)) return ratio(a) > ratio(b) ? a : b;
+
+  return b.tasksCompleted > a.tasksCompleted ? b : a;
+}
+
+/** Union of two timestamped logs, deduped by timestamp, oldest first */
+export function unionByTimestamp<T extends { timestamp: string }>(
+  a: T[],
+  b: T[]
+): T[] {
+  const byTimestamp = new Map<string, T>();
+  for (const entry of [...b, ...a]) byTimestamp.set(entry.timestamp, entry);
+  return Array.from(byTimestamp.values()).sort((x, y) =>
+    x.timestamp.localeCompare(y.timestamp)
+  );
+}
+
+/** Union of two activity logs, deduped by event id, oldest first */
+export function unionById<T extends { id: string }>(a: T[], b: T[]): T[] {
+  const byId = new Map<string, T>();
+  for (const entry of [...b, ...a]) byId.set(entry.id, entry);
+  return Array.from(byId.values()).sort((x, y) => x.id.localeCompare(y.id));
+}
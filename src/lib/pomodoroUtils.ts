@@ -0,0 +1,219 @@
+/**
+ * pomodoroUtils.ts
+ *
+ * Pomodoro cycles. A work interval runs for the task's own
+ * `pomoDurationMinutes`; when it finishes a break starts on the same row:
+ *   - a long break once `longBreakEvery` work intervals have finished since
+ *     the last long one (0 = never), a short break otherwise
+ *   - a break of 0 minutes is skipped
+ * The store keeps the cycle position (`pomodoroCycle`, work intervals since
+ * the last long break); it starts over at each daily reset.
+ *
+ * A task may need several work intervals (`pomoIntervals`, default 1) —
+ * only the last one completes it. Intervals done today are counted from the
+ * day's pomodoro_finished events, so they need no state of their own.
+ * A time-budget task (`timeBudget`) instead needs `pomoDurationMinutes` of
+ * focus in total, from sessions of any length — see budgetStatus().
+ *
+ * A timer can be paused: `pausedAt` freezes the time left, and resuming
+ * pushes `endTime` back by the pause (accumulated in `pausedMs`). The timer
+ * is persisted, so a reload picks it up where it was.
+ *
+ * Every work interval that ends — run out, stopped early, or dropped by the
+ * daily reset — is kept as a PomodoroSession with the time actually spent
+ * focused (paused time excluded). Focus minutes per task and per day are
+ * summed from these; breaks are not focus and leave no session.
+ */
+
+import type {
+  ActivePomodoro,
+  ActivityEvent,
+  PomodoroPhase,
+  PomodoroSession,
+  PomodoroSettings,
+  Task,
+} from "@/store/useGrindStore";
+import { eventsForDay } from "@/lib/activityLog";
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+/** How a work interval ended, as shown in reports and the day drill-down */
+export const SESSION_OUTCOME_LABELS: Record<
+  PomodoroSession["outcome"],
+  string
+> = {
+  completed: "COMPLETED",
+  stopped: "STOPPED EARLY",
+  abandoned: "ABANDONED AT RESET",
+};
+
+/** Time left on `timer` at `now`, in ms (frozen while paused; ≤ 0 = run out) */
+export function timerMsLeft(
+  timer: Pick<ActivePomodoro, "endTime" | "pausedAt">,
+  now: number = Date.now()
+): number {
+  return timer.endTime - (timer.pausedAt ?? now);
+}
+
+/** Unix timestamp `timer` was started at (pauses push its end, not its start) */
+export function timerStartedAt(
+  timer: Pick<ActivePomodoro, "endTime" | "totalMs" | "pausedMs">
+): number {
+  return timer.endTime - timer.totalMs - timer.pausedMs;
+}
+
+/**
+ * The session record for a work interval ending at `end` (unix ms).
+ * Focused time is what has run of the countdown by then.
+ */
+export function closeSession(
+  timer: ActivePomodoro,
+  outcome: PomodoroSession["outcome"],
+  disciplineDay: string,
+  label: string,
+  end: number
+): PomodoroSession {
+  const focusedMs = Math.min(
+    timer.totalMs,
+    Math.max(0, timer.totalMs - timerMsLeft(timer, end))
+  );
+  return {
+    timestamp: new Date(timerStartedAt(timer)).toISOString(),
+    endedAt: new Date(end).toISOString(),
+    disciplineDay,
+    taskId: timer.taskId,
+    label,
+    plannedMs: timer.totalMs,
+    focusedMs,
+    pausedMs:
+      timer.pausedMs +
+      (timer.pausedAt !== null ? Math.max(0, end - timer.pausedAt) : 0),
+    outcome,
+  };
+}
+
+/** Sessions of `disciplineDay`, oldest first (filtered, like eventsForDay) */
+export function sessionsForDay(
+  sessions: PomodoroSession[],
+  disciplineDay: string
+): PomodoroSession[] {
+  return sessions.filter((session) => session.disciplineDay === disciplineDay);
+}
+
+/** Focus minutes per task id on `disciplineDay` */
+export function focusMinutesByTask(
+  sessions: PomodoroSession[],
+  disciplineDay: string
+): Record<string, number> {
+  const ms: Record<string, number> = {};
+  for (const session of sessionsForDay(sessions, disciplineDay)) {
+    ms[session.taskId] = (ms[session.taskId] ?? 0) + session.focusedMs;
+  }
+  const minutes: Record<string, number> = {};
+  for (const [taskId, total] of Object.entries(ms)) {
+    minutes[taskId] = Math.round(total / 60_000);
+  }
+  return minutes;
+}
+
+/** Focus minutes on `disciplineDay`, all tasks */
+export function focusMinutes(
+  sessions: PomodoroSession[],
+  disciplineDay: string
+): number {
+  const ms = sessionsForDay(sessions, disciplineDay).reduce(
+    (sum, session) => sum + session.focusedMs,
+    0
+  );
+  return Math.round(ms / 60_000);
+}
+
+/** A time-budget task's focus so far against its budget, in ms */
+export interface BudgetStatus {
+  focusedMs: number;
+  requiredMs: number;
+  met: boolean;
+}
+
+/**
+ * Time-budget tasks: focus so far on `disciplineDay` against the budget.
+ * Counted in ms, so a budget is met exactly, not by rounding.
+ */
+export function budgetStatus(
+  task: Pick<Task, "id" | "pomoDurationMinutes">,
+  sessions: PomodoroSession[],
+  disciplineDay: string
+): BudgetStatus {
+  const focusedMs = sessionsForDay(sessions, disciplineDay)
+    .filter((session) => session.taskId === task.id)
+    .reduce((sum, session) => sum + session.focusedMs, 0);
+  const requiredMs = task.pomoDurationMinutes * 60_000;
+  return { focusedMs, requiredMs, met: focusedMs >= requiredMs };
+}
+
+/** e.g. "25m", "1h 05m" */
+export function formatFocus(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/** Work intervals a task needs before the timer completes it */
+export function intervalsNeeded(
+  task: Pick<Task, "pomoIntervals" | "timeBudget">
+): number {
+  return task.timeBudget ? 1 : task.pomoIntervals ?? 1;
+}
+
+/** Finished work intervals per task id on `disciplineDay` */
+export function workIntervalsDone(
+  log: ActivityEvent[],
+  disciplineDay: string
+): Record<string, number> {
+  const done: Record<string, number> = {};
+  for (const event of eventsForDay(log, disciplineDay)) {
+    if (event.type === "pomodoro_finished" && event.taskId) {
+      done[event.taskId] = (done[event.taskId] ?? 0) + 1;
+    }
+  }
+  return done;
+}
+
+/**
+ * The break due after a work interval, given the cycle position including
+ * that interval. Null if the break is 0 minutes long (skipped).
+ */
+export function breakAfter(
+  cycle: number,
+  settings: PomodoroSettings
+): { phase: Exclude<PomodoroPhase, "work">; minutes: number } | null {
+  const long = settings.longBreakEvery > 0 && cycle >= settings.longBreakEvery;
+  const minutes = long ? settings.longBreakMinutes : settings.shortBreakMinutes;
+  if (minutes <= 0) return null;
+  return { phase: long ? "longBreak" : "shortBreak", minutes };
+}
+
+/** True if the work interval that brought the cycle to `cycle` ends a set */
+export function endsSet(cycle: number, settings: PomodoroSettings): boolean {
+  return settings.longBreakEvery > 0 && cycle >= settings.longBreakEvery;
+}
+
+/** Short label for a phase, e.g. "SHORT BREAK" */
+export function phaseLabel(phase: PomodoroPhase): string {
+  return phase === "work"
+    ? "WORK"
+    : phase === "shortBreak"
+    ? "SHORT BREAK"
+    : "LONG BREAK";
+}
+
+/** One-line summary, e.g. "BREAKS 5m / 15m EVERY 4" */
+export function describePomodoroSettings(settings: PomodoroSettings): string {
+  const short =
+    settings.shortBreakMinutes > 0 ? `${settings.shortBreakMinutes}m` : "NONE";
+  if (settings.longBreakEvery === 0) return `BREAKS ${short}`;
+  return `BREAKS ${short} / ${settings.longBreakMinutes}m EVERY ${settings.longBreakEvery}`;
+}
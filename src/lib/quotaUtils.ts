@@ -0,0 +1,170 @@
+/**
+ * quotaUtils.ts
+ *
+ * Weekly quota tasks: "3 strength sessions per week" instead of every day.
+ *
+ * A quota task is checked off on the days a session happens; its count is
+ * derived from the archived per-task results in `dayHistory` plus the live
+ * day. Two window kinds:
+ *   - calendarWeek — Monday to Sunday (discipline days)
+ *   - rollingWeek  — the 7 discipline days ending on the given day
+ *
+ * Streak rule: a quota is judged when its window closes — calendar quotas
+ * at the end of each Sunday, rolling quotas at the end of every day. A
+ * window that falls short marks the closing day `quotaMissed`, which ends
+ * the streak at that reset. Windows starting before the quota's `since` day
+ * are never judged, so a new quota can't fail a week it only partly saw.
+ *
+ * Every closed calendar week is archived to `weekHistory`, whatever the
+ * quota's window kind.
+ */
+
+import type {
+  DayRecord,
+  QuotaResult,
+  Task,
+  TaskQuota,
+  WeekRecord,
+} from "@/store/useGrindStore";
+import { shiftDisciplineDay } from "@/lib/timeUtils";
+import { weekdayOf } from "@/lib/scheduleUtils";
+
+/** A catalog task that carries a quota */
+export type QuotaTask = Task & { quota: TaskQuota };
+
+/** Visible quota tasks, in catalog order */
+export function quotaTasks(catalog: Task[]): QuotaTask[] {
+  return catalog.filter((t): t is QuotaTask => !t.hidden && !!t.quota);
+}
+
+/** Monday of the calendar week containing `day` */
+export function weekStartOf(day: string): string {
+  return shiftDisciplineDay(day, -((weekdayOf(day) + 6) % 7));
+}
+
+/** First and last day (inclusive) of the quota window containing `day` */
+export function quotaWindow(
+  quota: TaskQuota,
+  day: string
+): { from: string; to: string } {
+  if (quota.period === "calendarWeek") {
+    const from = weekStartOf(day);
+    return { from, to: shiftDisciplineDay(from, 6) };
+  }
+  return { from: shiftDisciplineDay(day, -6), to: day };
+}
+
+/** The live board day, counted from `completions` instead of the archive */
+interface LiveDay {
+  day: string;
+  completions: Record<string, boolean>;
+}
+
+/** Days between `from` and `to` (inclusive) on which `taskId` was done */
+export function countCompletions(
+  taskId: string,
+  from: string,
+  to: string,
+  dayHistory: Record<string, DayRecord>,
+  live?: LiveDay
+): number {
+  let count = 0;
+  for (let day = from; day <= to; day = shiftDisciplineDay(day, 1)) {
+    const done =
+      live && day === live.day
+        ? live.completions[taskId] ?? false
+        : dayHistory[day]?.taskResults?.some(
+            (r) => r.id === taskId && r.done
+          ) ?? false;
+    if (done) count++;
+  }
+  return count;
+}
+
+export interface QuotaStatus {
+  count: number;
+  target: number;
+  remaining: number;
+  met: boolean;
+}
+
+/** Where a quota stands in the window containing the live day */
+export function quotaStatus(
+  task: QuotaTask,
+  dayHistory: Record<string, DayRecord>,
+  live: LiveDay
+): QuotaStatus {
+  const { from, to } = quotaWindow(task.quota, live.day);
+  const count = countCompletions(task.id, from, to, dayHistory, live);
+  const target = task.quota.count;
+  return {
+    count,
+    target,
+    remaining: Math.max(target - count, 0),
+    met: count >= target,
+  };
+}
+
+/**
+ * Quota tasks whose window closes at the end of `day` and fell short.
+ * `dayHistory` must already hold the record for `day`.
+ */
+export function missedQuotas(
+  catalog: Task[],
+  day: string,
+  dayHistory: Record<string, DayRecord>
+): QuotaTask[] {
+  return quotaTasks(catalog).filter((task) => {
+    const { from, to } = quotaWindow(task.quota, day);
+    if (to !== day || from < task.quota.since) return false;
+    return countCompletions(task.id, from, to, dayHistory) < task.quota.count;
+  });
+}
+
+/** Mondays of the calendar weeks whose Sunday is in [fromDay, beforeDay) */
+export function weeksEndingBetween(
+  fromDay: string,
+  beforeDay: string
+): string[] {
+  const weeks: string[] = [];
+  let weekStart = weekStartOf(fromDay);
+  while (shiftDisciplineDay(weekStart, 6) < beforeDay) {
+    weeks.push(weekStart);
+    weekStart = shiftDisciplineDay(weekStart, 7);
+  }
+  return weeks;
+}
+
+/**
+ * Quota attainment over the calendar week starting `weekStart`, for every
+ * quota already in force on that Monday. Pass `live` while the week is
+ * still running.
+ */
+export function archiveWeek(
+  catalog: Task[],
+  weekStart: string,
+  dayHistory: Record<string, DayRecord>,
+  live?: LiveDay
+): WeekRecord {
+  const weekEnd = shiftDisciplineDay(weekStart, 6);
+  const quotas: QuotaResult[] = quotaTasks(catalog)
+    .filter((task) => task.quota.since <= weekStart)
+    .map((task) => {
+      const count = countCompletions(
+        task.id,
+        weekStart,
+        weekEnd,
+        dayHistory,
+        live
+      );
+      return {
+        id: task.id,
+        label: task.label,
+        period: task.quota.period,
+        count,
+        target: task.quota.count,
+        met: count >= task.quota.count,
+      };
+    });
+  return { weekStart, quotas };
+}
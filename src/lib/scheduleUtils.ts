@@ -0,0 +1,75 @@
+/**
+ * scheduleUtils.ts
+ *
+ * Recurrence rules deciding which discipline days a task applies to.
+ *
+ * A task without a schedule applies every day. Otherwise exactly one rule:
+ *   - weekdays  — on the listed weekdays (0 = Sunday … 6 = Saturday)
+ *   - interval  — every N days counting from a start day (inclusive)
+ *   - dateRange — from one day to another, both inclusive
+ *
+ * Days are discipline-day strings (YYYY-MM-DD), so "Saturday" means the
+ * Saturday discipline day, which runs past midnight until the reset hour.
+ */
+
+import type { TaskSchedule } from "@/store/useGrindStore";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/** Days since the epoch of a YYYY-MM-DD string (calendar arithmetic, UTC) */
+function dayNumber(day: string): number {
+  const [year, month, date] = day.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / MS_PER_DAY);
+}
+
+/** 0 = Sunday … 6 = Saturday */
+export function weekdayOf(day: string): number {
+  // 1970-01-01 was a Thursday
+  return (((dayNumber(day) + 4) % 7) + 7) % 7;
+}
+
+/**
+ * True if a task with `schedule` applies on `day`.
+ * Malformed days (e.g. the empty board day before the first reset) count as
+ * active, so nothing silently disappears.
+ */
+export function isScheduledOn(
+  schedule: TaskSchedule | undefined,
+  day: string
+): boolean {
+  if (!schedule || !DAY_PATTERN.test(day)) return true;
+
+  switch (schedule.kind) {
+    case "weekdays":
+      return schedule.days.includes(weekdayOf(day));
+    case "interval": {
+      const offset = dayNumber(day) - dayNumber(schedule.startDay);
+      return offset >= 0 && offset % schedule.every === 0;
+    }
+    case "dateRange":
+      return day >= schedule.from && day <= schedule.to;
+  }
+}
+
+/** Short label for the task editor, e.g. "SAT", "EVERY 3D FROM 2026-03-01" */
+export function describeSchedule(schedule: TaskSchedule | undefined): string {
+  if (!schedule) return "DAILY";
+
+  switch (schedule.kind) {
+    case "weekdays":
+      return schedule.days.length === 0
+        ? "NEVER"
+        : [...schedule.days]
+            .sort((a, b) => a - b)
+            .map((d) => WEEKDAY_LABELS[d])
+            .join(" ");
+    case "interval":
+      return `EVERY ${schedule.every}D FROM ${schedule.startDay}`;
+    case "dateRange":
+      return `${schedule.from} → ${schedule.to}`;
+  }
+}
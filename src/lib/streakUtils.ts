@@ -0,0 +1,327 @@
+/**
+ * streakUtils.ts
+ *
+ * Streak rules engine: judges archived day records against the user's
+ * StreakPolicy, and derives the streak from them.
+ *
+ * Each closed day gets a verdict, in this order:
+ *   1. broken-by-rule — failures reached the policy's limit, or a weekly
+ *      quota window closed short that day (see lib/quotaUtils.ts); no rest
+ *      day or freeze holds it
+ *   2. counted — every task done (a day with nothing scheduled included),
+ *      or progress reached the policy's minimum percentage
+ *   3. otherwise the day is a miss, and then:
+ *        rest   — it falls on a planned rest weekday: streak held
+ *        frozen — a freeze token is spent: streak held
+ *        broken — streak back to 0
+ * Counted days add one; rest and frozen days neither add nor break.
+ * Every `freezeEvery` consecutive counted days earn a token (banked up to
+ * `maxFreezes`).
+ *
+ * The store applies judgeDay() at each reset and keeps the verdict on the
+ * record. When history is rewritten wholesale (merging another device's
+ * export, or RECOMPUTE in the editor) every day is re-judged from
+ * `dayHistory` under the current policy — see rejudgeHistory().
+ *
+ * Streak runs (current, longest, what broke each one) are derived from the
+ * verdicts kept on the records, never from the `streak` counter.
+ */
+
+import type {
+  DayRecord,
+  StreakPolicy,
+  StreakVerdict,
+} from "@/store/useGrindStore";
+import { getPreviousDisciplineDay, shiftDisciplineDay } from "@/lib/timeUtils";
+import { WEEKDAY_LABELS, weekdayOf } from "@/lib/scheduleUtils";
+
+/** The original rule: every task, every day; no rest days, no freezes */
+export const DEFAULT_STREAK_POLICY: StreakPolicy = {
+  restDays: [],
+  freezeEvery: 0,
+  maxFreezes: 2,
+  minPercent: 100,
+  failureLimit: null,
+};
+
+/** Short labels for the verdict kinds, as shown on the dashboard and review */
+export const VERDICT_LABELS: Record<StreakVerdict["kind"], string> = {
+  counted: "COUNTED",
+  rest: "REST",
+  frozen: "FROZEN",
+  broken: "BROKEN",
+};
+
+/** Running streak state, carried from one judged day to the next */
+export interface StreakStatus {
+  streak: number;
+  /** Banked freeze tokens */
+  freezes: number;
+  /** Counted days toward the next token */
+  freezeProgress: number;
+}
+
+export const EMPTY_STREAK_STATUS: StreakStatus = {
+  streak: 0,
+  freezes: 0,
+  freezeProgress: 0,
+};
+
+/** Share of the day done, 0–100 (older records lack progressPercent) */
+function dayPercent(record: DayRecord): number {
+  if (record.progressPercent !== undefined) return record.progressPercent;
+  if (record.totalTasks === 0) return record.complete ? 100 : 0;
+  return Math.round((record.tasksCompleted / record.totalTasks) * 100);
+}
+
+/**
+ * Why the day fell short, or null if it counts. `byRule` = a rule was
+ * broken (failure limit, weekly quota), which no rest day or freeze holds.
+ */
+function shortfall(
+  record: DayRecord | undefined,
+  policy: StreakPolicy
+): { reason: string; byRule: boolean } | null {
+  if (!record) return { reason: "NO RECORD", byRule: false };
+  if (
+    policy.failureLimit !== null &&
+    record.failureCount >= policy.failureLimit
+  ) {
+    return {
+      reason: `${record.failureCount} FAILURES (LIMIT ${policy.failureLimit})`,
+      byRule: true,
+    };
+  }
+  if (record.quotaMissed) {
+    return { reason: "WEEKLY QUOTA MISSED", byRule: true };
+  }
+  if (record.complete) return null;
+  if (record.unopened) return { reason: "UNOPENED", byRule: false };
+  const percent = dayPercent(record);
+  if (percent >= policy.minPercent) return null;
+  return {
+    reason:
+      policy.minPercent >= 100
+        ? `${record.tasksCompleted}/${record.totalTasks} TASKS`
+        : `${percent}% < ${policy.minPercent}%`,
+    byRule: false,
+  };
+}
+
+/** Why a day that counts counted */
+function countedReason(record: DayRecord): string {
+  if (record.complete) {
+    return record.totalTasks === 0 ? "NOTHING SCHEDULED" : "ALL TASKS DONE";
+  }
+  return `${dayPercent(record)}% DONE`;
+}
+
+/**
+ * Judges one closed day. `record` undefined = no record at all (a gap in
+ * history), which is a miss like an unopened day.
+ */
+export function judgeDay(
+  record: DayRecord | undefined,
+  disciplineDay: string,
+  policy: StreakPolicy,
+  status: StreakStatus
+): { verdict: StreakVerdict; status: StreakStatus } {
+  const miss = shortfall(record, policy);
+
+  if (miss === null) {
+    let { freezes, freezeProgress } = status;
+    let reason = countedReason(record as DayRecord);
+    if (policy.freezeEvery > 0 && ++freezeProgress >= policy.freezeEvery) {
+      freezeProgress = 0;
+      if (freezes < policy.maxFreezes) {
+        freezes++;
+        reason += " · FREEZE EARNED";
+      }
+    }
+    return {
+      verdict: { kind: "counted", reason },
+      status: { streak: status.streak + 1, freezes, freezeProgress },
+    };
+  }
+
+  // A broken rule is never held by a rest day or a freeze
+  if (!miss.byRule) {
+    const weekday = weekdayOf(disciplineDay);
+    if (policy.restDays.includes(weekday)) {
+      return {
+        verdict: {
+          kind: "rest",
+          reason: `PLANNED REST (${WEEKDAY_LABELS[weekday]}) — ${miss.reason}`,
+        },
+        status,
+      };
+    }
+
+    if (status.freezes > 0) {
+      return {
+        verdict: { kind: "frozen", reason: `FREEZE USED — ${miss.reason}` },
+        status: { ...status, freezes: status.freezes - 1 },
+      };
+    }
+  }
+
+  return {
+    verdict: { kind: "broken", reason: miss.reason },
+    status: { ...status, streak: 0, freezeProgress: 0 },
+  };
+}
+
+/**
+ * Replays `dayHistory` from its oldest record up to the day before
+ * `currentDisciplineDay` (the live day never counts until it is archived).
+ * Returns the resulting status and the verdict of every replayed day.
+ */
+export function replayStreak(
+  dayHistory: Record<string, DayRecord>,
+  currentDisciplineDay: string,
+  policy: StreakPolicy
+): { status: StreakStatus; verdicts: Record<string, StreakVerdict> } {
+  const verdicts: Record<string, StreakVerdict> = {};
+  let status = EMPTY_STREAK_STATUS;
+  const days = Object.keys(dayHistory).sort();
+  if (currentDisciplineDay === "" || days.length === 0) {
+    return { status, verdicts };
+  }
+
+  for (
+    let day = days[0];
+    day < currentDisciplineDay;
+    day = shiftDisciplineDay(day, 1)
+  ) {
+    const judged = judgeDay(dayHistory[day], day, policy, status);
+    verdicts[day] = judged.verdict;
+    status = judged.status;
+  }
+  return { status, verdicts };
+}
+
+/**
+ * Re-judges every closed day under `policy`. Returns the history with each
+ * changed verdict written back (unchanged records keep their identity) and
+ * the resulting streak status.
+ */
+export function rejudgeHistory(
+  dayHistory: Record<string, DayRecord>,
+  currentDisciplineDay: string,
+  policy: StreakPolicy
+): { dayHistory: Record<string, DayRecord>; status: StreakStatus } {
+  const { status, verdicts } = replayStreak(
+    dayHistory,
+    currentDisciplineDay,
+    policy
+  );
+  const rejudged = { ...dayHistory };
+  for (const [day, verdict] of Object.entries(verdicts)) {
+    const record = rejudged[day];
+    if (
+      record &&
+      (record.verdict?.kind !== verdict.kind ||
+        record.verdict?.reason !== verdict.reason)
+    ) {
+      rejudged[day] = { ...record, verdict };
+    }
+  }
+  return { dayHistory: rejudged, status };
+}
+
+/** A run of counted days; rest and frozen days inside it held it alive */
+export interface StreakRun {
+  /** First counted day */
+  start: string;
+  /** Last counted day */
+  end: string;
+  /** Counted days in the run */
+  length: number;
+  /** The day that ended the run and why — null while it is still alive */
+  brokenBy: { day: string; reason: string } | null;
+}
+
+/**
+ * Verdict of every closed day: the one kept on its record, or — for gaps
+ * and records archived before verdicts existed — the replayed one.
+ */
+export function dayVerdicts(
+  dayHistory: Record<string, DayRecord>,
+  currentDisciplineDay: string,
+  policy: StreakPolicy
+): Record<string, StreakVerdict> {
+  const { verdicts } = replayStreak(dayHistory, currentDisciplineDay, policy);
+  for (const day of Object.keys(verdicts)) {
+    const kept = dayHistory[day]?.verdict;
+    if (kept) verdicts[day] = kept;
+  }
+  return verdicts;
+}
+
+/** Splits day verdicts into streak runs, oldest first */
+export function streakRuns(
+  verdicts: Record<string, StreakVerdict>
+): StreakRun[] {
+  const runs: StreakRun[] = [];
+  let run: StreakRun | null = null;
+  for (const day of Object.keys(verdicts).sort()) {
+    const verdict = verdicts[day];
+    if (verdict.kind === "counted") {
+      if (run) {
+        run.end = day;
+        run.length++;
+      } else {
+        run = { start: day, end: day, length: 1, brokenBy: null };
+        runs.push(run);
+      }
+    } else if (verdict.kind === "broken" && run) {
+      run.brokenBy = { day, reason: verdict.reason };
+      run = null;
+    }
+  }
+  return runs;
+}
+
+/** Current (still-alive run) and longest streak lengths */
+export function streakSummary(runs: StreakRun[]): {
+  current: number;
+  longest: number;
+} {
+  const last = runs[runs.length - 1];
+  return {
+    current: last && last.brokenBy === null ? last.length : 0,
+    longest: runs.reduce((max, run) => Math.max(max, run.length), 0),
+  };
+}
+
+/** The verdict kept on the record of the day before `currentDisciplineDay` */
+export function lastVerdict(
+  dayHistory: Record<string, DayRecord>,
+  currentDisciplineDay: string
+): StreakVerdict | null {
+  if (currentDisciplineDay === "") return null;
+  const yesterday = getPreviousDisciplineDay(currentDisciplineDay);
+  return dayHistory[yesterday]?.verdict ?? null;
+}
+
+/** One-line summary, e.g. "80% COUNTS · REST SAT SUN · FREEZE PER 7D" */
+export function describePolicy(policy: StreakPolicy): string {
+  const parts = [
+    policy.minPercent >= 100 ? "ALL TASKS" : `${policy.minPercent}% COUNTS`,
+  ];
+  if (policy.restDays.length > 0) {
+    parts.push(
+      `REST ${[...policy.restDays]
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join(" ")}`
+    );
+  }
+  if (policy.freezeEvery > 0) {
+    parts.push(`FREEZE PER ${policy.freezeEvery}D (MAX ${policy.maxFreezes})`);
+  }
+  if (policy.failureLimit !== null) {
+    parts.push(`${policy.failureLimit} FAILURES BREAK`);
+  }
+  return parts.join(" · ");
+}
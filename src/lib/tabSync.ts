@@ -0,0 +1,200 @@
+/**
+ * tabSync.ts
+ *
+ * Cross-tab synchronization over a BroadcastChannel.
+ *
+ * Every local change to a synced key (the persisted slice plus the
+ * ephemeral isFailureActive) is broadcast to the other
+ * open tabs, which apply it to their own store. Tabs therefore converge
+ * in memory before they persist, instead of the last writer overwriting
+ * everyone else's state.
+ *
+ * Collections (the append-only logs, plus the completion map) travel as
+ * per-entry deltas rather than whole values, so a receiving tab reuses its
+ * own entry references and its IndexedDB diff stays small. It also means
+ * two tabs toggling different tasks at once don't clobber each other.
+ *
+ * A newly opened tab asks for the ephemeral state ("hello"), which lives
+ * nowhere in storage — and for the running timer, which peers hold newer
+ * than the copy storage had when the tab loaded.
+ *
+ * Leader election (navigator.locks) picks exactly one tab to own
+ * scheduled work such as the 04:00 reset.
+ */
+
+import type { StoreApi } from "zustand";
+import { GrindState, pickPersisted } from "@/store/useGrindStore";
+import {
+  COLLECTIONS,
+  CollectionDelta,
+  CollectionShape,
+  applyDelta,
+  diffCollection,
+} from "@/lib/collections";
+
+const CHANNEL_NAME = "grindos-sync";
+const LEADER_LOCK = "grindos-leader";
+
+/** Ephemeral keys that must agree across tabs */
+const EPHEMERAL_KEYS = ["isFailureActive"] as const;
+
+/** Keys synced as per-entry deltas instead of whole values */
+const DELTA_SHAPES: Record<string, CollectionShape> = {
+  ...COLLECTIONS,
+  completions: { kind: "map" },
+  progress: { kind: "map" },
+  checkedItems: { kind: "map" },
+};
+
+type SyncMessage =
+  | {
+      type: "patch";
+      source: string;
+      patch: Partial<GrindState>;
+      deltas: Record<string, CollectionDelta>;
+    }
+  | { type: "hello"; source: string };
+
+/** Identifies this tab's messages so it ignores its own echoes */
+const TAB_ID = Math.random().toString(36).slice(2);
+
+/**
+ * Connects a store to the sync channel. Returns a disconnect function.
+ * No-op (returns a no-op) where BroadcastChannel is unavailable.
+ */
+export function connectTabSync(store: StoreApi<GrindState>): () => void {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const syncedKeys = [
+    ...Object.keys(pickPersisted(store.getState())),
+    ...EPHEMERAL_KEYS,
+  ] as Array<keyof GrindState>;
+
+  /** True while applying a remote message — suppresses re-broadcast */
+  let applyingRemote = false;
+
+  function post(message: SyncMessage) {
+    channel.postMessage(message);
+  }
+
+  function sendEphemeral() {
+    const state = store.getState();
+    post({
+      type: "patch",
+      source: TAB_ID,
+      patch: {
+        activePomodoro: state.activePomodoro,
+        isFailureActive: state.isFailureActive,
+      },
+      deltas: {},
+    });
+  }
+
+  const unsubscribe = store.subscribe((state, previous) => {
+    if (applyingRemote || !state.hasHydrated) return;
+
+    // Announce ourselves once hydrated so peers send their ephemeral state
+    if (!previous.hasHydrated) {
+      post({ type: "hello", source: TAB_ID });
+      return;
+    }
+
+    const patch: Record<string, unknown> = {};
+    const deltas: Record<string, CollectionDelta> = {};
+    let changed = false;
+
+    for (const key of syncedKeys) {
+      if (state[key] === previous[key]) continue;
+      changed = true;
+      const shape = DELTA_SHAPES[key];
+      if (shape) {
+        deltas[key] = diffCollection(shape, previous[key], state[key]);
+      } else {
+        patch[key] = state[key];
+      }
+    }
+
+    if (changed) {
+      post({ type: "patch", source: TAB_ID, patch, deltas });
+    }
+  });
+
+  // Mounted after hydration already finished — announce right away
+  if (store.getState().hasHydrated) post({ type: "hello", source: TAB_ID });
+
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+    const message = event.data;
+    const state = store.getState();
+    if (message.source === TAB_ID || !state.hasHydrated) return;
+
+    if (message.type === "hello") {
+      sendEphemeral();
+      return;
+    }
+
+    const next: Record<string, unknown> = { ...message.patch };
+    for (const [key, delta] of Object.entries(message.deltas)) {
+      next[key] = applyDelta(
+        DELTA_SHAPES[key],
+        state[key as keyof GrindState],
+        delta
+      );
+    }
+
+    applyingRemote = true;
+    try {
+      store.setState(next as Partial<GrindState>);
+    } finally {
+      applyingRemote = false;
+    }
+  };
+
+  return () => {
+    unsubscribe();
+    channel.close();
+  };
+}
+
+// ─── Leader election ──────────────────────────────────────────────────────────
+
+let isLeader = false;
+let electionStarted = false;
+const leaderListeners = new Set<() => void>();
+
+/**
+ * Subscribes to leadership. The first subscriber starts the election; the
+ * callback fires once this tab holds the leader lock (immediately if it
+ * already does). Without the Web Locks API every tab considers itself
+ * leader — the pre-sync behaviour.
+ */
+export function onLeadership(callback: () => void): () => void {
+  if (isLeader) {
+    callback();
+    return () => {};
+  }
+
+  leaderListeners.add(callback);
+  if (!electionStarted) {
+    electionStarted = true;
+    if (typeof navigator === "undefined" || !navigator.locks) {
+      becomeLeader();
+    } else {
+      // The lock is held until the tab closes — the promise never settles
+      navigator.locks.request(LEADER_LOCK, () => {
+        becomeLeader();
+        return new Promise<never>(() => {});
+      });
+    }
+  }
+
+  return () => {
+    leaderListeners.delete(callback);
+  };
+}
+
+function becomeLeader() {
+  isLeader = true;
+  leaderListeners.forEach((listener) => listener());
+  leaderListeners.clear();
+}
@@ -0,0 +1,72 @@
+/**
+ * taskGraph.ts
+ *
+ * Prerequisite graph over the task catalog. A task may list the ids of the
+ * tasks it `requires`; with ENFORCE PREREQUISITES on, it stays locked until
+ * every one of them that is on the same day's board is done. Tasks without
+ * prerequisites are never locked, so independent work runs in parallel.
+ *
+ * Prerequisites that aren't on the board (hidden, off-schedule, quota or
+ * deleted tasks) never block. Locks look at direct prerequisites only —
+ * an incomplete prerequisite is itself incomplete, so a chain still locks
+ * all the way down — which keeps the check safe even on a cyclic graph
+ * (the editor refuses cycles, but hand-edited or merged data may not).
+ */
+
+import type { Task } from "@/store/useGrindStore";
+
+/** Prerequisites of `task` on `board` that aren't done, in board order */
+export function unmetPrerequisites(
+  task: Task,
+  board: Task[],
+  completions: Record<string, boolean>
+): Task[] {
+  const requires = task.requires ?? [];
+  return board.filter((t) => requires.includes(t.id) && !completions[t.id]);
+}
+
+/** Every locked task on `board`, mapped to the prerequisites blocking it */
+export function blockedTasks(
+  board: Task[],
+  completions: Record<string, boolean>
+): Map<string, Task[]> {
+  const blocked = new Map<string, Task[]>();
+  for (const task of board) {
+    const unmet = unmetPrerequisites(task, board, completions);
+    if (unmet.length > 0) blocked.set(task.id, unmet);
+  }
+  return blocked;
+}
+
+/**
+ * The cycle that giving task `id` the prerequisites `requires` would close,
+ * as a path of task ids starting and ending with `id` — or null if the
+ * graph stays acyclic.
+ */
+export function findCycle(
+  catalog: Task[],
+  id: string,
+  requires: string[]
+): string[] | null {
+  const edges = new Map(
+    catalog.map((t) => [t.id, t.id === id ? requires : t.requires ?? []])
+  );
+  const visited = new Set<string>();
+
+  function walk(from: string, path: string[]): string[] | null {
+    if (from === id) return [...path, from];
+    if (visited.has(from)) return null;
+    visited.add(from);
+    for (const next of edges.get(from) ?? []) {
+      const cycle = walk(next, [...path, from]);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  for (const next of requires) {
+    const cycle = walk(next, [id]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
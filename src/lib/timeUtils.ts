@@ -2,42 +2,155 @@
  * timeUtils.ts
  *
  * All time logic lives here. The "discipline day" is NOT the calendar day —
- * it runs from 04:00 local time to 03:59:59 the next calendar day.
+ * it runs from the reset hour (default 04:00) to just before the reset hour
+ * the next calendar day, in the user's home time zone.
  *
  * Key invariant: getDisciplineDay() returns a stable string for any moment
- * within the same discipline window, and changes exactly at 04:00 local time.
+ * within the same discipline window, and changes exactly at the reset hour.
+ *
+ * The reset hour and home zone are persisted settings. The store pushes them
+ * here via configureDisciplineDay(); a null zone means the device's zone.
+ *
+ * DST: wall-clock fields are read through Intl in the home zone, so the
+ * discipline day follows the zone's own rules.
+ *   - A 23h or 25h discipline day needs no special-casing.
+ *   - If the reset hour is skipped (spring forward), the day changes at the
+ *     first instant after the gap.
+ *   - If the reset hour repeats (fall back), both occurrences map to the
+ *     same discipline day, so there is no second reset.
+ * msUntilNextReset() searches for the actual boundary instant instead of
+ * assuming "24h minus elapsed".
  */
 
-/** The hour at which the discipline day resets (local time). */
-export const RESET_HOUR = 4;
+/** Default hour at which the discipline day resets (home-zone time). */
+export const DEFAULT_RESET_HOUR = 4;
+
+export interface DayBoundaryConfig {
+  /** 0–23, hour in the home zone when a new discipline day starts */
+  resetHour: number;
+  /** IANA zone name, e.g. "Europe/Lisbon"; null = device zone */
+  timeZone: string | null;
+}
+
+let config: DayBoundaryConfig = {
+  resetHour: DEFAULT_RESET_HOUR,
+  timeZone: null,
+};
+
+/** Sets the reset hour and home zone used by every function below */
+export function configureDisciplineDay(next: DayBoundaryConfig): void {
+  config = { resetHour: next.resetHour, timeZone: next.timeZone };
+}
+
+/** True if `timeZone` is an IANA zone name this runtime understands */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Formats the reset hour as HH:00 */
+export function formatResetHour(resetHour: number = config.resetHour): string {
+  return `${String(resetHour).padStart(2, "0")}:00`;
+}
+
+// ─── Zoned wall clock ─────────────────────────────────────────────────────────
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/** Formatters per named zone (device-zone ones are not cached: travel) */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string | null): Intl.DateTimeFormat {
+  const cached = timeZone ? formatters.get(timeZone) : undefined;
+  if (cached) return cached;
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone ?? undefined,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  if (timeZone) formatters.set(timeZone, formatter);
+  return formatter;
+}
+
+/** Wall-clock fields of `date` in the home zone */
+function wallClock(date: Date): WallClock {
+  const formatter = zoneFormatter(config.timeZone);
+
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+  };
+}
+
+/** YYYY-MM-DD for a calendar date, shifted by `offsetDays` */
+function formatCalendarDate(
+  year: number,
+  month: number,
+  day: number,
+  offsetDays = 0
+): string {
+  // Pure calendar arithmetic — UTC has no DST to trip over
+  const date = new Date(Date.UTC(year, month - 1, day + offsetDays));
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(date.getUTCDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function formatHMS({ hour, minute, second }: WallClock): string {
+  const h = String(hour).padStart(2, "0");
+  const m = String(minute).padStart(2, "0");
+  const s = String(second).padStart(2, "0");
+  return `${h}:${m}:${s}`;
+}
+
+// ─── Discipline day ───────────────────────────────────────────────────────────
 
 /**
  * Returns an ISO date string (YYYY-MM-DD) representing the discipline day
  * that the given timestamp belongs to.
  *
- * Logic:
- *   - If local hour >= 04:00 → the discipline day is TODAY's calendar date.
- *   - If local hour <  04:00 → the discipline day is YESTERDAY's calendar date,
- *     because we are still inside the previous 04:00 window.
+ * Logic (home-zone wall clock):
+ *   - If hour >= reset hour → the discipline day is TODAY's calendar date.
+ *   - If hour <  reset hour → the discipline day is YESTERDAY's calendar date,
+ *     because we are still inside the previous window.
  *
- * Example:
+ * Example (reset hour 04:00):
  *   03:30 on 2026-02-10  → discipline day "2026-02-09" (still Feb 9th window)
  *   04:01 on 2026-02-10  → discipline day "2026-02-10" (Feb 10th window started)
  */
 export function getDisciplineDay(date: Date = new Date()): string {
-  const localHour = date.getHours();
-
-  // Shift back one calendar day when we're in the 00:00–03:59 window
-  const adjustedDate = new Date(date);
-  if (localHour < RESET_HOUR) {
-    adjustedDate.setDate(adjustedDate.getDate() - 1);
-  }
-
-  // Return YYYY-MM-DD using local date components (not UTC)
-  const year = adjustedDate.getFullYear();
-  const month = String(adjustedDate.getMonth() + 1).padStart(2, "0");
-  const day = String(adjustedDate.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+  const wall = wallClock(date);
+  return formatCalendarDate(
+    wall.year,
+    wall.month,
+    wall.day,
+    wall.hour < config.resetHour ? -1 : 0
+  );
 }
 
 /**
@@ -45,55 +158,112 @@ export function getDisciplineDay(date: Date = new Date()): string {
  * Used during streak evaluation to check if yesterday was completed.
  */
 export function getPreviousDisciplineDay(disciplineDay: string): string {
+  return shiftDisciplineDay(disciplineDay, -1);
+}
+
+/**
+ * Returns the discipline day `offsetDays` after (or, if negative, before)
+ * the given one. Used for week windows (quota tasks).
+ */
+export function shiftDisciplineDay(
+  disciplineDay: string,
+  offsetDays: number
+): string {
   const [year, month, day] = disciplineDay.split("-").map(Number);
-  const date = new Date(year, month - 1, day);
-  date.setDate(date.getDate() - 1);
+  return formatCalendarDate(year, month, day, offsetDays);
+}
 
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}`;
+/**
+ * Returns the discipline days strictly between `after` and `before`,
+ * oldest first, walking back from `before` via getPreviousDisciplineDay.
+ * At most `limit` days (the most recent ones) are returned.
+ * Used by the reset to backfill days the app was never opened.
+ */
+export function getDisciplineDaysBetween(
+  after: string,
+  before: string,
+  limit: number
+): string[] {
+  const days: string[] = [];
+  let day = getPreviousDisciplineDay(before);
+  while (day > after && days.length < limit) {
+    days.push(day);
+    day = getPreviousDisciplineDay(day);
+  }
+  return days.reverse();
 }
 
+/** Longest possible discipline day (25h DST day) plus slack */
+const MAX_DAY_MS = 26 * 60 * 60 * 1000;
+
 /**
- * Returns milliseconds until the next 04:00 local time reset.
+ * Returns milliseconds until the next reset boundary.
  * Used by the polling hook to schedule the next reset check.
+ *
+ * Binary-searches for the first instant (to the second) whose discipline
+ * day differs from now's, which lands on the real boundary across DST
+ * transitions and skipped reset hours.
  */
-export function msUntilNextReset(): number {
-  const now = new Date();
-  const next = new Date(now);
-
-  next.setSeconds(0, 0);
-  next.setMinutes(0);
-  next.setHours(RESET_HOUR);
+export function msUntilNextReset(now: Date = new Date()): number {
+  const current = getDisciplineDay(now);
+  let lo = now.getTime();
+  let hi = lo + MAX_DAY_MS;
+  if (getDisciplineDay(new Date(hi)) === current) return MAX_DAY_MS;
 
-  // If we've already passed today's 04:00, aim for tomorrow's
-  if (now >= next) {
-    next.setDate(next.getDate() + 1);
+  while (hi - lo > 1000) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (getDisciplineDay(new Date(mid)) === current) lo = mid;
+    else hi = mid;
   }
+  return hi - now.getTime();
+}
+
+// ─── Time of day within the discipline day ────────────────────────────────────
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/** Minutes from the reset hour to the wall-clock time hour:minute */
+function minutesAfterReset(hour: number, minute: number): number {
+  return (
+    (hour * 60 + minute - config.resetHour * 60 + MINUTES_PER_DAY) %
+    MINUTES_PER_DAY
+  );
+}
+
+/**
+ * Minutes elapsed since the discipline day started (0 at the reset hour),
+ * by the home-zone wall clock. On a DST day the wall clock jumps, so this
+ * does too — consistent with times of day entered as wall-clock HH:MM.
+ */
+export function minutesIntoDisciplineDay(date: Date = new Date()): number {
+  const { hour, minute } = wallClock(date);
+  return minutesAfterReset(hour, minute);
+}
 
-  return next.getTime() - now.getTime();
+/**
+ * Position of a wall-clock time "HH:MM" within the discipline day, in
+ * minutes after the reset hour. With a 04:00 reset, "09:00" → 300 and
+ * "02:00" → 1320 (late that night, before the next reset).
+ */
+export function timeOfDayOffset(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return minutesAfterReset(hour, minute);
 }
 
+// ─── Display ──────────────────────────────────────────────────────────────────
+
 /**
- * Formats a Date or ISO string to HH:MM:SS in local time.
+ * Formats a Date or ISO string to HH:MM:SS in the home zone.
  * Used in the UI to display protocol start time and failure timestamps.
  */
 export function formatLocalTime(isoString: string | null): string {
   if (!isoString) return "--:--:--";
-  const date = new Date(isoString);
-  const h = String(date.getHours()).padStart(2, "0");
-  const m = String(date.getMinutes()).padStart(2, "0");
-  const s = String(date.getSeconds()).padStart(2, "0");
-  return `${h}:${m}:${s}`;
+  return formatHMS(wallClock(new Date(isoString)));
 }
 
 /**
- * Returns a live clock string (HH:MM:SS) from a Date object.
+ * Returns a live clock string (HH:MM:SS, home zone) from a Date object.
  */
 export function formatClock(date: Date): string {
-  const h = String(date.getHours()).padStart(2, "0");
-  const m = String(date.getMinutes()).padStart(2, "0");
-  const s = String(date.getSeconds()).padStart(2, "0");
-  return `${h}:${m}:${s}`;
+  return formatHMS(wallClock(date));
 }
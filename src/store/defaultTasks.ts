@@ -0,0 +1,107 @@
+/**
+ * defaultTasks.ts
+ *
+ * The seed catalog: the eight original GrindOS tasks. A fresh store starts
+ * with these. The v4 → v5 migration seeds the same ids from its own frozen
+ * copy (later migrations add the newer fields), so changes here only reach
+ * fresh stores. After that they are ordinary tasks — editable, hideable,
+ * reorderable and deletable.
+ *
+ * Each block series runs in sequence (II requires I, …); the series and
+ * reading are independent of each other. The first mobility block is due
+ * by 09:00.
+ */
+
+import type { Task } from "@/store/useGrindStore";
+
+export const DEFAULT_TASKS: Task[] = [
+  {
+    id: "mobilityBlock1",
+    label: "MOBILITY BLOCK I",
+    category: "physical",
+    duration: "15m",
+    description: "Joints, hip flexors, thoracic spine",
+    pomoDurationMinutes: 15,
+    hidden: false,
+    deadline: "09:00",
+    checklist: [
+      { id: "joints", label: "JOINTS" },
+      { id: "hipFlexors", label: "HIP FLEXORS" },
+      { id: "thoracicSpine", label: "THORACIC SPINE" },
+    ],
+  },
+  {
+    id: "mobilityBlock2",
+    label: "MOBILITY BLOCK II",
+    category: "physical",
+    duration: "15m",
+    description: "Hamstrings, shoulders, active stretching",
+    pomoDurationMinutes: 15,
+    hidden: false,
+    requires: ["mobilityBlock1"],
+    checklist: [
+      { id: "hamstrings", label: "HAMSTRINGS" },
+      { id: "shoulders", label: "SHOULDERS" },
+      { id: "activeStretching", label: "ACTIVE STRETCHING" },
+    ],
+  },
+  {
+    id: "mobilityBlock3",
+    label: "MOBILITY BLOCK III",
+    category: "physical",
+    duration: "15m",
+    description: "Full body flow integration",
+    pomoDurationMinutes: 15,
+    hidden: false,
+    requires: ["mobilityBlock2"],
+  },
+  {
+    id: "deepWork1",
+    label: "DEEP WORK SESSION I",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+  },
+  {
+    id: "deepWork2",
+    label: "DEEP WORK SESSION II",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+    requires: ["deepWork1"],
+  },
+  {
+    id: "deepWork3",
+    label: "DEEP WORK SESSION III",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+    requires: ["deepWork2"],
+  },
+  {
+    id: "deepWork4",
+    label: "DEEP WORK SESSION IV",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+    requires: ["deepWork3"],
+  },
+  {
+    id: "reading20Pages",
+    label: "READ 20 PAGES",
+    category: "intellectual",
+    duration: "—",
+    description: "Non-fiction or technical material only",
+    pomoDurationMinutes: 30,
+    hidden: false,
+    target: { amount: 20, unit: "PAGES" },
+  },
+];
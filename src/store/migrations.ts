@@ -0,0 +1,980 @@
+/**
+ * migrations.ts — Persisted state schema versions
+ *
+ * Every shape change to the persisted slice of GrindState gets a new schema
+ * version and a migrator that upgrades the previous version by exactly one
+ * step. On rehydration zustand hands us the stored version; we walk the chain
+ * up to STORE_VERSION, then validate the result before it touches the store.
+ *
+ * Schema versions:
+ *   1 — GrindOS v1 (key "grindos-state"): built-in tasks, streak, failures
+ *   2 — GrindOS v2 (key "grindos-state-v2"): custom tasks, intents, moods,
+ *       weight log, day history, enforcement flags
+ *   3 — activity log (timestamped events the booleans are derived from)
+ *   4 — reset hour + home time zone settings
+ *   5 — unified task catalog + single completion map (built-ins become
+ *       seed tasks; `tasks` / `customTasks` / `customTaskCompletions` go)
+ *   6 — dashboard view setting (category panels vs. run sheet)
+ *   7 — quantitative tasks: optional task targets + per-task progress map
+ *   8 — sub-item checklists: optional task checklists + ticked-items map
+ *   9 — optional per-task schedules (recurrence rules)
+ *  10 — weekly quota tasks + per-week quota archive (`weekHistory`)
+ *  11 — per-task prerequisites (`requires`) replace linear task order
+ *  12 — per-task time windows (earliest start / deadline) + the
+ *       deadline-failure setting
+ *  13 — streak policy (rest weekdays, freeze tokens, minimum percentage,
+ *       failure limit) + banked freeze tokens
+ *  14 — correction window for the previous day + amendment audit trail
+ *  15 — pomodoro cycles: break settings + cycle position; tasks may need
+ *       several work intervals
+ *  16 — the running pomodoro timer is persisted (pausable)
+ *  17 — pomodoro session log (focused time per work interval)
+ *
+ * v2 blobs written before versioning existed carry zustand's default
+ * version 0 and are treated as schema 2.
+ *
+ * If validation fails, the raw stored payload is copied to a timestamped
+ * backup key BEFORE the store falls back to defaults (the next write would
+ * otherwise overwrite it), and the store surfaces a recovery notice.
+ */
+
+import type { StateStorage } from "zustand/middleware";
+import { DEFAULT_TASKS } from "@/store/defaultTasks";
+import { getDisciplineDay, isValidTimeZone } from "@/lib/timeUtils";
+import { TIME_OF_DAY } from "@/lib/deadlineUtils";
+import { DEFAULT_STREAK_POLICY } from "@/lib/streakUtils";
+import { DEFAULT_CORRECTION_WINDOW_HOURS } from "@/lib/correctionUtils";
+import { DEFAULT_POMODORO_SETTINGS } from "@/lib/pomodoroUtils";
+
+/** Current persisted schema version. Bump together with a new migrator. */
+export const STORE_VERSION = 17;
+
+/** localStorage key of the live store */
+export const STORAGE_KEY = "grindos-state-v2";
+
+/** localStorage key used by GrindOS v1 — read once if no v2 state exists */
+export const LEGACY_V1_STORAGE_KEY = "grindos-state";
+
+/** Prefix for copies of payloads that failed validation */
+export const BACKUP_KEY_PREFIX = `${STORAGE_KEY}-backup-`;
+
+/** Zustand's default version for blobs persisted without an explicit one */
+const UNVERSIONED = 0;
+
+// ─── Migrators ────────────────────────────────────────────────────────────────
+
+type Migrator = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/** The seed catalog as it shipped with schema 5 — frozen, never edit */
+const V5_SEED_TASKS: readonly Record<string, unknown>[] = [
+  {
+    id: "mobilityBlock1",
+    label: "MOBILITY BLOCK I",
+    category: "physical",
+    duration: "15m",
+    description: "Joints, hip flexors, thoracic spine",
+    pomoDurationMinutes: 15,
+    hidden: false,
+  },
+  {
+    id: "mobilityBlock2",
+    label: "MOBILITY BLOCK II",
+    category: "physical",
+    duration: "15m",
+    description: "Hamstrings, shoulders, active stretching",
+    pomoDurationMinutes: 15,
+    hidden: false,
+  },
+  {
+    id: "mobilityBlock3",
+    label: "MOBILITY BLOCK III",
+    category: "physical",
+    duration: "15m",
+    description: "Full body flow integration",
+    pomoDurationMinutes: 15,
+    hidden: false,
+  },
+  {
+    id: "deepWork1",
+    label: "DEEP WORK SESSION I",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+  },
+  {
+    id: "deepWork2",
+    label: "DEEP WORK SESSION II",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+  },
+  {
+    id: "deepWork3",
+    label: "DEEP WORK SESSION III",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+  },
+  {
+    id: "deepWork4",
+    label: "DEEP WORK SESSION IV",
+    category: "cognitive",
+    duration: "60m",
+    description: "High-priority singular focus block",
+    pomoDurationMinutes: 60,
+    hidden: false,
+  },
+  {
+    id: "reading20Pages",
+    label: "READ 20 PAGES",
+    category: "intellectual",
+    duration: "—",
+    description: "Non-fiction or technical material only",
+    pomoDurationMinutes: 30,
+    hidden: false,
+  },
+];
+
+/**
+ * MIGRATIONS[n] upgrades a schema-n payload to schema n+1.
+ * Migrators must be defensive: a field may be missing or malformed in
+ * hand-edited storage, and validation runs only after the whole chain.
+ */
+const MIGRATIONS: Record<number, Migrator> = {
+  // v1 → v2: add custom tasks, intents, moods, weight log, history, settings.
+  // v1 failure entries may be bare ISO strings without a discipline day.
+  1: (state) => {
+    const failures = Array.isArray(state.failureHistory)
+      ? state.failureHistory
+      : [];
+
+    return {
+      tasks: isRecord(state.tasks) ? state.tasks : {},
+      customTasks: [],
+      customTaskCompletions: {},
+      streak: typeof state.streak === "number" ? state.streak : 0,
+      lastResetDisciplineDay:
+        typeof state.lastResetDisciplineDay === "string"
+          ? state.lastResetDisciplineDay
+          : "",
+      protocolStartTime:
+        typeof state.protocolStartTime === "string"
+          ? state.protocolStartTime
+          : null,
+      failureHistory: failures.map((f) =>
+        typeof f === "string"
+          ? { timestamp: f, disciplineDay: getDisciplineDay(new Date(f)) }
+          : f
+      ),
+      dailyIntents: {},
+      dailyMoods: {},
+      weightLog: [],
+      dayHistory: {},
+      enforceTaskOrder: false,
+      enforcePomodoro: false,
+    };
+  },
+
+  // v2 → v3: add the activity log, backfilled from what v2 recorded —
+  // initiation, failures, weights, and the current board's completions
+  // (timestamped at migration time, flagged `backfilled`).
+  2: (state) => {
+    const events: Array<Record<string, unknown>> = [];
+    const push = (
+      type: string,
+      timestamp: string,
+      disciplineDay: string,
+      fields: Record<string, unknown> = {}
+    ) => {
+      events.push({
+        id: `${timestamp}_m${events.length}`,
+        type,
+        timestamp,
+        disciplineDay,
+        ...fields,
+      });
+    };
+
+    const intents = isRecord(state.dailyIntents) ? state.dailyIntents : {};
+    const moods = isRecord(state.dailyMoods) ? state.dailyMoods : {};
+    if (typeof state.protocolStartTime === "string") {
+      const day = getDisciplineDay(new Date(state.protocolStartTime));
+      push("protocol_initiated", state.protocolStartTime, day, {
+        data: { intent: intents[day] ?? "", mood: moods[day] ?? 0 },
+      });
+    }
+    for (const f of Array.isArray(state.failureHistory)
+      ? state.failureHistory
+      : []) {
+      if (isFailureEvent(f)) {
+        push("failure_logged", f.timestamp, f.disciplineDay);
+      }
+    }
+    for (const w of Array.isArray(state.weightLog) ? state.weightLog : []) {
+      if (isWeightEntry(w)) {
+        const day = getDisciplineDay(new Date(w.timestamp));
+        push("weight_logged", w.timestamp, day, {
+          data: { value: w.value, unit: w.unit },
+        });
+      }
+    }
+
+    const board = state.lastResetDisciplineDay;
+    if (typeof board === "string" && board !== "") {
+      const now = new Date().toISOString();
+      const completions = {
+        ...(isRecord(state.tasks) ? state.tasks : {}),
+        ...(isRecord(state.customTaskCompletions)
+          ? state.customTaskCompletions
+          : {}),
+      };
+      for (const [taskId, done] of Object.entries(completions)) {
+        if (done === true) {
+          push("task_completed", now, board, {
+            taskId,
+            data: { backfilled: true },
+          });
+        }
+      }
+    }
+
+    events.sort((a, b) => (String(a.id) < String(b.id) ? -1 : 1));
+    return { ...state, activityLog: events };
+  },
+
+  // v3 → v4: day boundary settings; defaults keep the old 04:00 device-zone
+  // behaviour.
+  3: (state) => ({ ...state, resetHour: 4, timeZone: null }),
+
+  // v4 → v5: the eight built-ins become seed entries of the catalog, ahead
+  // of the custom tasks (the old board order); both completion maps merge.
+  // The seeds are the v5 snapshot, not DEFAULT_TASKS: later steps backfill
+  // their own fields (target, checklist, …) and skip tasks that have them.
+  4: (state) => {
+    const { tasks, customTasks, customTaskCompletions, ...rest } = state;
+    const custom = Array.isArray(customTasks) ? customTasks : [];
+    const completions: Record<string, unknown> = {
+      ...(isRecord(tasks) ? tasks : {}),
+      ...(isRecord(customTaskCompletions) ? customTaskCompletions : {}),
+    };
+    return {
+      ...rest,
+      taskCatalog: [
+        ...V5_SEED_TASKS.map((t) => ({ ...t })),
+        ...custom.map((t) => (isRecord(t) ? { ...t, hidden: false } : t)),
+      ],
+      // Only completed entries matter; false is the default
+      completions: Object.fromEntries(
+        Object.entries(completions).filter(([, done]) => done === true)
+      ),
+    };
+  },
+
+  // v5 → v6: add the dashboard view; existing users keep the category panels
+  5: (state) => ({
+    ...state,
+    dashboardView: "panels",
+  }),
+
+  // v6 → v7: add the progress map. The seeded reading task gets its page
+  // target if the user hasn't renamed it (a checked one counts as 20/20).
+  6: (state) => {
+    const catalog = Array.isArray(state.taskCatalog) ? state.taskCatalog : [];
+    const completions = isRecord(state.completions) ? state.completions : {};
+    const seed = DEFAULT_TASKS.find((t) => t.id === "reading20Pages");
+    const progress: Record<string, number> = {};
+    return {
+      ...state,
+      taskCatalog: catalog.map((t) => {
+        if (
+          !seed?.target ||
+          !isRecord(t) ||
+          t.id !== seed.id ||
+          t.label !== seed.label ||
+          t.target !== undefined
+        ) {
+          return t;
+        }
+        if (completions[seed.id] === true) {
+          progress[seed.id] = seed.target.amount;
+        }
+        return { ...t, target: seed.target };
+      }),
+      progress,
+    };
+  },
+
+  // v7 → v8: add the ticked-items map. Seeded mobility blocks whose
+  // description is unchanged get their movements as a checklist (all
+  // ticked if the block is already checked).
+  7: (state) => {
+    const catalog = Array.isArray(state.taskCatalog) ? state.taskCatalog : [];
+    const completions = isRecord(state.completions) ? state.completions : {};
+    const checkedItems: Record<string, boolean> = {};
+    return {
+      ...state,
+      taskCatalog: catalog.map((t) => {
+        const seed = DEFAULT_TASKS.find((d) => isRecord(t) && d.id === t.id);
+        if (
+          !seed?.checklist ||
+          !isRecord(t) ||
+          t.description !== seed.description ||
+          t.checklist !== undefined
+        ) {
+          return t;
+        }
+        if (completions[seed.id] === true) {
+          for (const item of seed.checklist) {
+            // checklistKey() format — the store module isn't imported here
+            checkedItems[`${seed.id}/${item.id}`] = true;
+          }
+        }
+        return { ...t, checklist: seed.checklist };
+      }),
+      checkedItems,
+    };
+  },
+
+  // v8 → v9: tasks may carry a schedule; absent means every day, so
+  // existing data is already valid
+  8: (state) => state,
+
+  // v9 → v10: tasks may carry a weekly quota; add the empty week archive
+  9: (state) => ({ ...state, weekHistory: {} }),
+
+  // v10 → v11: locks now follow per-task prerequisites. Seeded tasks whose
+  // label is unchanged get their series chain (I before II …), limited to
+  // prerequisites still in the catalog; everything else starts independent.
+  10: (state) => {
+    const catalog = Array.isArray(state.taskCatalog) ? state.taskCatalog : [];
+    const ids = new Set(catalog.map((t) => (isRecord(t) ? t.id : undefined)));
+    return {
+      ...state,
+      taskCatalog: catalog.map((t) => {
+        const seed = DEFAULT_TASKS.find((d) => isRecord(t) && d.id === t.id);
+        if (
+          !seed?.requires ||
+          !isRecord(t) ||
+          t.label !== seed.label ||
+          t.requires !== undefined
+        ) {
+          return t;
+        }
+        const requires = seed.requires.filter((id) => ids.has(id));
+        return requires.length > 0 ? { ...t, requires } : t;
+      }),
+    };
+  },
+
+  // v11 → v12: add the deadline-failure setting (off — missed deadlines
+  // don't count as failures until the user opts in). Seeded tasks whose
+  // label is unchanged get their seed deadline.
+  11: (state) => {
+    const catalog = Array.isArray(state.taskCatalog) ? state.taskCatalog : [];
+    return {
+      ...state,
+      taskCatalog: catalog.map((t) => {
+        const seed = DEFAULT_TASKS.find((d) => isRecord(t) && d.id === t.id);
+        if (
+          !seed?.deadline ||
+          !isRecord(t) ||
+          t.label !== seed.label ||
+          t.deadline !== undefined
+        ) {
+          return t;
+        }
+        return { ...t, deadline: seed.deadline };
+      }),
+      deadlineFailures: false,
+    };
+  },
+
+  // v12 → v13: the default policy is the old all-or-nothing rule, so
+  // existing streaks carry on unchanged
+  12: (state) => ({
+    ...state,
+    streakPolicy: DEFAULT_STREAK_POLICY,
+    freezeTokens: 0,
+    freezeProgress: 0,
+  }),
+
+  // v13 → v14: the correction window opens from the next reset on (no day
+  // is correctable until a reset has recorded its starting status)
+  13: (state) => ({
+    ...state,
+    correctionWindowHours: DEFAULT_CORRECTION_WINDOW_HOURS,
+    correctableDay: null,
+    amendments: [],
+  }),
+
+  // v14 → v15: pomodoro cycles with the default breaks; existing tasks
+  // need one interval (pomoIntervals absent)
+  14: (state) => ({
+    ...state,
+    pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+    pomodoroCycle: 0,
+  }),
+
+  // v15 → v16: the timer was never stored — nothing is running
+  15: (state) => ({
+    ...state,
+    activePomodoro: null,
+  }),
+
+  // v16 → v17: no session was ever logged; older day records simply have
+  // no focusMinutes
+  16: (state) => ({
+    ...state,
+    pomodoroSessions: [],
+  }),
+};
+
+/**
+ * Runs every migrator between `fromVersion` and STORE_VERSION.
+ * Never throws: a missing step, a future version or a crashing migrator
+ * yields a MigrationFailure, which validation then reports.
+ */
+export function migratePersistedState(
+  persisted: unknown,
+  fromVersion: number
+): unknown {
+  try {
+    let version = fromVersion === UNVERSIONED ? 2 : fromVersion;
+    if (version > STORE_VERSION) {
+      throw new Error(
+        `stored schema v${version} is newer than this build (v${STORE_VERSION})`
+      );
+    }
+
+    let state = isRecord(persisted) ? persisted : {};
+    while (version < STORE_VERSION) {
+      const step = MIGRATIONS[version];
+      if (!step) throw new Error(`no migrator from schema v${version}`);
+      state = step(state);
+      version++;
+    }
+    return state;
+  } catch (err) {
+    const failure: MigrationFailure = {
+      migrationError: err instanceof Error ? err.message : String(err),
+    };
+    return failure;
+  }
+}
+
+/** Stand-in payload for a migration that could not complete */
+interface MigrationFailure {
+  migrationError: string;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Checks a (migrated) payload against the current schema.
+ * Returns a list of human-readable problems; empty = valid.
+ */
+export function validatePersistedState(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isRecord(value)) return ["state is not an object"];
+  if (typeof value.migrationError === "string") {
+    return [`migration failed: ${value.migrationError}`];
+  }
+
+  expectArrayOf(value.taskCatalog, "taskCatalog", isTask, errors);
+  expectRecordOf(value.completions, "completions", isBoolean, errors);
+  if (typeof value.streak !== "number" || value.streak < 0) {
+    errors.push("streak must be a non-negative number");
+  }
+  if (typeof value.lastResetDisciplineDay !== "string") {
+    errors.push("lastResetDisciplineDay must be a string");
+  }
+  if (
+    value.protocolStartTime !== null &&
+    typeof value.protocolStartTime !== "string"
+  ) {
+    errors.push("protocolStartTime must be a string or null");
+  }
+  expectArrayOf(value.failureHistory, "failureHistory", isFailureEvent, errors);
+  expectRecordOf(value.dailyIntents, "dailyIntents", isString, errors);
+  expectRecordOf(value.dailyMoods, "dailyMoods", isNumber, errors);
+  expectArrayOf(value.weightLog, "weightLog", isWeightEntry, errors);
+  expectRecordOf(value.dayHistory, "dayHistory", isDayRecord, errors);
+  if (typeof value.enforceTaskOrder !== "boolean") {
+    errors.push("enforceTaskOrder must be a boolean");
+  }
+  if (typeof value.enforcePomodoro !== "boolean") {
+    errors.push("enforcePomodoro must be a boolean");
+  }
+  if (!isPomodoroSettings(value.pomodoroSettings)) {
+    errors.push("pomodoroSettings is malformed");
+  }
+  if (
+    !Number.isInteger(value.pomodoroCycle) ||
+    (value.pomodoroCycle as number) < 0
+  ) {
+    errors.push("pomodoroCycle must be a non-negative integer");
+  }
+  if (
+    value.activePomodoro !== null &&
+    !isActivePomodoro(value.activePomodoro)
+  ) {
+    errors.push("activePomodoro is malformed");
+  }
+  expectArrayOf(
+    value.pomodoroSessions,
+    "pomodoroSessions",
+    isPomodoroSession,
+    errors
+  );
+  if (typeof value.deadlineFailures !== "boolean") {
+    errors.push("deadlineFailures must be a boolean");
+  }
+  if (!isStreakPolicy(value.streakPolicy)) {
+    errors.push("streakPolicy is malformed");
+  }
+  if (
+    !Number.isInteger(value.freezeTokens) ||
+    (value.freezeTokens as number) < 0
+  ) {
+    errors.push("freezeTokens must be a non-negative integer");
+  }
+  if (
+    !Number.isInteger(value.freezeProgress) ||
+    (value.freezeProgress as number) < 0
+  ) {
+    errors.push("freezeProgress must be a non-negative integer");
+  }
+  if (
+    !Number.isInteger(value.correctionWindowHours) ||
+    (value.correctionWindowHours as number) < 0 ||
+    (value.correctionWindowHours as number) > 24
+  ) {
+    errors.push("correctionWindowHours must be an integer 0–24");
+  }
+  if (value.correctableDay !== null && !isCorrectableDay(value.correctableDay)) {
+    errors.push("correctableDay is malformed");
+  }
+  expectArrayOf(value.amendments, "amendments", isDayAmendment, errors);
+  expectArrayOf(value.activityLog, "activityLog", isActivityEvent, errors);
+  if (
+    !Number.isInteger(value.resetHour) ||
+    (value.resetHour as number) < 0 ||
+    (value.resetHour as number) > 23
+  ) {
+    errors.push("resetHour must be an integer 0–23");
+  }
+  if (
+    value.timeZone !== null &&
+    (typeof value.timeZone !== "string" || !isValidTimeZone(value.timeZone))
+  ) {
+    errors.push("timeZone must be a known IANA zone or null");
+  }
+  if (value.dashboardView !== "panels" && value.dashboardView !== "runSheet") {
+    errors.push('dashboardView must be "panels" or "runSheet"');
+  }
+  expectRecordOf(value.progress, "progress", isNumber, errors);
+  expectRecordOf(value.checkedItems, "checkedItems", isBoolean, errors);
+  expectRecordOf(value.weekHistory, "weekHistory", isWeekRecord, errors);
+
+  return errors;
+}
+
+// ─── Storage + recovery ───────────────────────────────────────────────────────
+
+/** Raw string last read from storage — kept so a failed load can be backed up */
+let lastRawPayload: string | null = null;
+
+/**
+ * Records the serialized payload of a load from a storage that does not go
+ * through withLegacyFallback (e.g. the IndexedDB adapter).
+ */
+export function rememberRawPayload(raw: string | null): void {
+  lastRawPayload = raw;
+}
+
+/**
+ * Wraps a StateStorage so that:
+ *   - the raw payload of every read is remembered for backupRawPayload()
+ *   - a missing v2 key falls back to the GrindOS v1 key, tagged as schema 1
+ *     so the v1 → v2 migrator runs. The v1 key itself is left untouched.
+ */
+export function withLegacyFallback(storage: StateStorage): StateStorage {
+  return {
+    getItem: (name) => {
+      const raw = storage.getItem(name);
+      if (typeof raw === "string" || raw === null) {
+        lastRawPayload = raw ?? readLegacyV1Payload(storage);
+        return lastRawPayload;
+      }
+      return raw.then((value) => {
+        lastRawPayload = value;
+        return value;
+      });
+    },
+    setItem: (name, value) => storage.setItem(name, value),
+    removeItem: (name) => storage.removeItem(name),
+  };
+}
+
+function readLegacyV1Payload(storage: StateStorage): string | null {
+  const legacy = storage.getItem(LEGACY_V1_STORAGE_KEY);
+  if (typeof legacy !== "string") return null;
+  try {
+    const parsed: unknown = JSON.parse(legacy);
+    // v1 may have been persisted raw or wrapped as { state, version }
+    const state =
+      isRecord(parsed) && isRecord(parsed.state) ? parsed.state : parsed;
+    return JSON.stringify({ state, version: 1 });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Copies the payload that failed to load to a timestamped backup key.
+ * Returns the key, or null if there was nothing to back up or storage is full.
+ */
+export function backupRawPayload(): string | null {
+  if (lastRawPayload === null) return null;
+  const key = `${BACKUP_KEY_PREFIX}${new Date().toISOString()}`;
+  try {
+    localStorage.setItem(key, lastRawPayload);
+    return key;
+  } catch {
+    return null;
+  }
+}
+
+// ─── Type guards ──────────────────────────────────────────────────────────────
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isBoolean(v: unknown): boolean {
+  return typeof v === "boolean";
+}
+
+function isString(v: unknown): boolean {
+  return typeof v === "string";
+}
+
+function isNumber(v: unknown): boolean {
+  return typeof v === "number" && !Number.isNaN(v);
+}
+
+function isTask(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.id === "string" &&
+    typeof v.label === "string" &&
+    ["physical", "cognitive", "intellectual"].includes(v.category as string) &&
+    typeof v.duration === "string" &&
+    typeof v.description === "string" &&
+    isNumber(v.pomoDurationMinutes) &&
+    (v.pomoIntervals === undefined ||
+      (Number.isInteger(v.pomoIntervals) && (v.pomoIntervals as number) >= 1)) &&
+    (v.timeBudget === undefined || typeof v.timeBudget === "boolean") &&
+    typeof v.hidden === "boolean" &&
+    (v.target === undefined || isTaskTarget(v.target)) &&
+    (v.checklist === undefined ||
+      (Array.isArray(v.checklist) && v.checklist.every(isChecklistItem))) &&
+    (v.schedule === undefined || isTaskSchedule(v.schedule)) &&
+    (v.quota === undefined || isTaskQuota(v.quota)) &&
+    (v.requires === undefined ||
+      (Array.isArray(v.requires) && v.requires.every(isString))) &&
+    (v.earliestStart === undefined || isTimeOfDay(v.earliestStart)) &&
+    (v.deadline === undefined || isTimeOfDay(v.deadline))
+  );
+}
+
+function isPomodoroSettings(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    Number.isInteger(v.shortBreakMinutes) &&
+    (v.shortBreakMinutes as number) >= 0 &&
+    Number.isInteger(v.longBreakMinutes) &&
+    (v.longBreakMinutes as number) >= 0 &&
+    Number.isInteger(v.longBreakEvery) &&
+    (v.longBreakEvery as number) >= 0
+  );
+}
+
+function isActivePomodoro(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.taskId === "string" &&
+    ["work", "shortBreak", "longBreak"].includes(v.phase as string) &&
+    isNumber(v.endTime) &&
+    isNumber(v.totalMs) &&
+    (v.totalMs as number) > 0 &&
+    (v.pausedAt === null || isNumber(v.pausedAt)) &&
+    isNumber(v.pausedMs) &&
+    (v.pausedMs as number) >= 0
+  );
+}
+
+function isPomodoroSession(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.timestamp === "string" &&
+    typeof v.endedAt === "string" &&
+    typeof v.disciplineDay === "string" &&
+    typeof v.taskId === "string" &&
+    typeof v.label === "string" &&
+    isNumber(v.plannedMs) &&
+    isNumber(v.focusedMs) &&
+    isNumber(v.pausedMs) &&
+    ["completed", "stopped", "abandoned"].includes(v.outcome as string)
+  );
+}
+
+function isTimeOfDay(v: unknown): boolean {
+  return typeof v === "string" && TIME_OF_DAY.test(v);
+}
+
+function isTaskQuota(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    Number.isInteger(v.count) &&
+    (v.count as number) >= 1 &&
+    (v.period === "calendarWeek" || v.period === "rollingWeek") &&
+    typeof v.since === "string" &&
+    DAY_STRING.test(v.since)
+  );
+}
+
+const DAY_STRING = /^\d{4}-\d{2}-\d{2}$/;
+
+function isTaskSchedule(v: unknown): boolean {
+  if (!isRecord(v)) return false;
+  switch (v.kind) {
+    case "weekdays":
+      return (
+        Array.isArray(v.days) &&
+        v.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+      );
+    case "interval":
+      return (
+        Number.isInteger(v.every) &&
+        (v.every as number) >= 1 &&
+        typeof v.startDay === "string" &&
+        DAY_STRING.test(v.startDay)
+      );
+    case "dateRange":
+      return (
+        typeof v.from === "string" &&
+        typeof v.to === "string" &&
+        DAY_STRING.test(v.from) &&
+        DAY_STRING.test(v.to)
+      );
+    default:
+      return false;
+  }
+}
+
+function isChecklistItem(v: unknown): boolean {
+  return isRecord(v) && typeof v.id === "string" && typeof v.label === "string";
+}
+
+function isTaskTarget(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    isNumber(v.amount) &&
+    (v.amount as number) > 0 &&
+    typeof v.unit === "string"
+  );
+}
+
+function isFailureEvent(
+  v: unknown
+): v is { timestamp: string; disciplineDay: string } {
+  return (
+    isRecord(v) &&
+    typeof v.timestamp === "string" &&
+    typeof v.disciplineDay === "string"
+  );
+}
+
+function isWeightEntry(
+  v: unknown
+): v is { timestamp: string; value: number; unit: string } {
+  return (
+    isRecord(v) &&
+    typeof v.timestamp === "string" &&
+    isNumber(v.value) &&
+    (v.unit === "kg" || v.unit === "lbs")
+  );
+}
+
+function isActivityEvent(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.id === "string" &&
+    typeof v.type === "string" &&
+    typeof v.timestamp === "string" &&
+    typeof v.disciplineDay === "string" &&
+    (v.taskId === undefined || typeof v.taskId === "string") &&
+    (v.data === undefined || isRecord(v.data))
+  );
+}
+
+function isDayRecord(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.disciplineDay === "string" &&
+    typeof v.complete === "boolean" &&
+    isNumber(v.tasksCompleted) &&
+    isNumber(v.totalTasks) &&
+    isNumber(v.failureCount) &&
+    typeof v.intent === "string" &&
+    isNumber(v.mood) &&
+    (v.taskResults === undefined ||
+      (Array.isArray(v.taskResults) && v.taskResults.every(isTaskResult))) &&
+    (v.unopened === undefined || typeof v.unopened === "boolean") &&
+    (v.progressPercent === undefined || isNumber(v.progressPercent)) &&
+    (v.quotaMissed === undefined || typeof v.quotaMissed === "boolean") &&
+    (v.verdict === undefined || isStreakVerdict(v.verdict)) &&
+    (v.amended === undefined || typeof v.amended === "boolean") &&
+    (v.focusMinutes === undefined || isNumber(v.focusMinutes))
+  );
+}
+
+function isStreakVerdict(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    ["counted", "rest", "frozen", "broken"].includes(v.kind as string) &&
+    typeof v.reason === "string"
+  );
+}
+
+function isStreakStatus(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    Number.isInteger(v.streak) &&
+    Number.isInteger(v.freezes) &&
+    Number.isInteger(v.freezeProgress)
+  );
+}
+
+function isCorrectableDay(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.disciplineDay === "string" &&
+    isStreakStatus(v.before)
+  );
+}
+
+function isDayAmendment(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.timestamp === "string" &&
+    typeof v.disciplineDay === "string" &&
+    typeof v.taskId === "string" &&
+    typeof v.label === "string" &&
+    typeof v.wasDone === "boolean" &&
+    typeof v.done === "boolean" &&
+    isRecord(v.original) &&
+    isNumber(v.original.tasksCompleted) &&
+    typeof v.original.complete === "boolean" &&
+    (v.original.progressPercent === null ||
+      isNumber(v.original.progressPercent)) &&
+    (v.original.verdict === null || isStreakVerdict(v.original.verdict)) &&
+    isNumber(v.original.streak)
+  );
+}
+
+function isStreakPolicy(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    Array.isArray(v.restDays) &&
+    v.restDays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6) &&
+    Number.isInteger(v.freezeEvery) &&
+    (v.freezeEvery as number) >= 0 &&
+    Number.isInteger(v.maxFreezes) &&
+    (v.maxFreezes as number) >= 0 &&
+    isNumber(v.minPercent) &&
+    (v.minPercent as number) >= 0 &&
+    (v.minPercent as number) <= 100 &&
+    (v.failureLimit === null ||
+      (Number.isInteger(v.failureLimit) && (v.failureLimit as number) >= 1))
+  );
+}
+
+function isWeekRecord(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.weekStart === "string" &&
+    Array.isArray(v.quotas) &&
+    v.quotas.every(
+      (q) =>
+        isRecord(q) &&
+        typeof q.id === "string" &&
+        typeof q.label === "string" &&
+        (q.period === "calendarWeek" || q.period === "rollingWeek") &&
+        isNumber(q.count) &&
+        isNumber(q.target) &&
+        typeof q.met === "boolean"
+    )
+  );
+}
+
+function isTaskResult(v: unknown): boolean {
+  return (
+    isRecord(v) &&
+    typeof v.id === "string" &&
+    typeof v.label === "string" &&
+    ["physical", "cognitive", "intellectual"].includes(v.category as string) &&
+    typeof v.done === "boolean" &&
+    (v.completedAt === null || typeof v.completedAt === "string") &&
+    (v.target === undefined || isTaskTarget(v.target)) &&
+    (v.amount === undefined || isNumber(v.amount)) &&
+    (v.checklist === undefined ||
+      (Array.isArray(v.checklist) &&
+        v.checklist.every(
+          (item) =>
+            isRecord(item) &&
+            typeof item.label === "string" &&
+            typeof item.done === "boolean"
+        ))) &&
+    (v.quota === undefined || typeof v.quota === "boolean") &&
+    (v.deadline === undefined || isTimeOfDay(v.deadline)) &&
+    (v.late === undefined || typeof v.late === "boolean") &&
+    (v.amended === undefined || typeof v.amended === "boolean") &&
+    (v.focusMinutes === undefined || isNumber(v.focusMinutes))
+  );
+}
+
+function expectArrayOf(
+  value: unknown,
+  field: string,
+  guard: (v: unknown) => boolean,
+  errors: string[]
+): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return;
+  }
+  const bad = value.findIndex((item) => !guard(item));
+  if (bad !== -1) errors.push(`${field}[${bad}] is malformed`);
+}
+
+function expectRecordOf(
+  value: unknown,
+  field: string,
+  guard: (v: unknown) => boolean,
+  errors: string[]
+): void {
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return;
+  }
+  const bad = Object.keys(value).find((key) => !guard(value[key]));
+  if (bad !== undefined) errors.push(`${field}.${bad} is malformed`);
+}
@@ -5,50 +5,195 @@
  *   - Custom tasks (user-defined, add/remove from UI)
  *   - Daily intent & mood logged at protocol initiation
  *   - Historical day records (for weekly review)
- *   - Pomodoro timer state (ephemeral)
+ *   - Pomodoro timer state
  *   - Biometric weight log
  *   - Task ordering enforcement
  *   - Pomodoro enforcement
+ *   - Versioned schema with step-by-step migrations (see migrations.ts)
+ *   - IndexedDB persistence with per-record history stores (see idbStorage.ts)
+ *   - Undo/redo journal for toggles, custom tasks, weights, failures
+ *   - Event-sourced activity log (see lib/activityLog.ts)
+ *   - Configurable reset hour and home time zone (see lib/timeUtils.ts)
+ *   - One editable task catalog (seeded from defaultTasks.ts) with a single
+ *     completion map
+ *   - User-defined protocol order (catalog order) and a run-sheet view
+ *   - Quantitative tasks (numeric target + unit) with partial progress
+ *   - Sub-item checklists; the parent completes when every item is ticked
+ *   - Per-task schedules (see lib/scheduleUtils.ts); off-schedule tasks are
+ *     off the board for that day
+ *   - Weekly quota tasks with per-week archives (see lib/quotaUtils.ts)
+ *   - Per-task prerequisites replace strictly linear ordering
+ *     (see lib/taskGraph.ts)
+ *   - Per-task time windows: earliest start + deadline, late completions
+ *     flagged, optional failure on a missed deadline (see lib/deadlineUtils.ts)
+ *   - Configurable streak policy: rest weekdays, freeze tokens, minimum
+ *     completion percentage, failure limit (see lib/streakUtils.ts)
+ *   - Streak runs (current, longest, what broke each) derived from day
+ *     verdicts, and a recompute that rebuilds the streak from dayHistory
+ *   - Correction window: the previous day can be amended for a few hours
+ *     after the reset, with an audit trail (see lib/correctionUtils.ts)
+ *   - Pomodoro cycles: short / long breaks after work intervals, and tasks
+ *     that need several intervals (see lib/pomodoroUtils.ts)
+ *   - Pausable pomodoro timer that is persisted, so it survives a reload; a
+ *     timer that ran out while the app was closed is finished on load, and
+ *     one whose task leaves the board is dropped
+ *   - Pomodoro session log with focused time per work interval; focus
+ *     minutes per task and per day are archived with each day
+ *   - Time-budget tasks: sessions of any length add up toward the task's
+ *     timer duration and complete it once they reach it
  */
 
 import { create } from "zustand";
-import { persist, createJSONStorage } from "zustand/middleware";
-import { getDisciplineDay } from "@/lib/timeUtils";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_RESET_HOUR,
+  configureDisciplineDay,
+  formatResetHour,
+  getDisciplineDay,
+  getDisciplineDaysBetween,
+  isValidTimeZone,
+  minutesIntoDisciplineDay,
+} from "@/lib/timeUtils";
+import { createIndexedDBStorage } from "@/lib/idbStorage";
+import { isScheduledOn } from "@/lib/scheduleUtils";
+import { blockedTasks } from "@/lib/taskGraph";
+import { isLateCompletion, overdueTasks } from "@/lib/deadlineUtils";
+import {
+  DEFAULT_STREAK_POLICY,
+  describePolicy,
+  judgeDay,
+  rejudgeHistory,
+  StreakStatus,
+} from "@/lib/streakUtils";
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  breakAfter,
+  describePomodoroSettings,
+  endsSet,
+  intervalsNeeded,
+  closeSession,
+  focusMinutesByTask,
+  focusMinutes,
+  timerMsLeft,
+  budgetStatus,
+  workIntervalsDone,
+} from "@/lib/pomodoroUtils";
+import {
+  DEFAULT_CORRECTION_WINDOW_HOURS,
+  amendRecord,
+  correctionTarget,
+  rebaseCorrection,
+} from "@/lib/correctionUtils";
+import {
+  archiveWeek,
+  missedQuotas,
+  quotaTasks,
+  weeksEndingBetween,
+} from "@/lib/quotaUtils";
+import { DEFAULT_TASKS } from "@/store/defaultTasks";
+import {
+  appendEvents,
+  createEvent,
+  deriveCompletionTimes,
+  eventsForDay,
+} from "@/lib/activityLog";
+import {
+  EMPTY_JOURNAL,
+  Journal,
+  patchFor,
+  pushEntry,
+  recordChange,
+} from "@/lib/journal";
+import {
+  STORAGE_KEY,
+  STORE_VERSION,
+  backupRawPayload,
+  migratePersistedState,
+  validatePersistedState,
+} from "@/store/migrations";
 
-// ─── Task Identifiers ─────────────────────────────────────────────────────────
-
-export type TaskId =
-  | "mobilityBlock1"
-  | "mobilityBlock2"
-  | "mobilityBlock3"
-  | "deepWork1"
-  | "deepWork2"
-  | "deepWork3"
-  | "deepWork4"
-  | "reading20Pages";
+// ─── Tasks ────────────────────────────────────────────────────────────────────
 
 export type TaskCategory = "physical" | "cognitive" | "intellectual";
 
-export interface TaskDefinition {
-  id: TaskId;
+/** Numeric goal of a quantitative task, e.g. 20 pages */
+export interface TaskTarget {
+  /** The task completes once this amount is logged */
+  amount: number;
+  /** Display unit, e.g. "PAGES", "REPS", "MIN" */
+  unit: string;
+}
+
+/** Which days a task applies to — see lib/scheduleUtils.ts */
+export type TaskSchedule =
+  /** 0 = Sunday … 6 = Saturday */
+  | { kind: "weekdays"; days: number[] }
+  /** Every `every` days, counting from `startDay` (YYYY-MM-DD) */
+  | { kind: "interval"; every: number; startDay: string }
+  /** Inclusive YYYY-MM-DD bounds */
+  | { kind: "dateRange"; from: string; to: string };
+
+/**
+ * "N times per week" instead of daily. Quota tasks are off the daily board
+ * and judged per week — see lib/quotaUtils.ts for the rules.
+ */
+export interface TaskQuota {
+  /** Sessions required per window */
+  count: number;
+  /** calendarWeek = Monday–Sunday; rollingWeek = the last 7 days */
+  period: "calendarWeek" | "rollingWeek";
+  /** Discipline day the quota took effect; earlier windows aren't judged */
+  since: string;
+}
+
+/** One sub-item of a task's checklist */
+export interface ChecklistItem {
+  /** Stable within its task — ticks are keyed by it */
+  id: string;
   label: string;
-  category: TaskCategory;
-  duration: string;
-  description: string;
-  /** Default pomodoro duration in minutes */
-  pomoDurationMinutes: number;
 }
 
-/** User-created tasks stored in the Zustand store */
-export interface CustomTask {
+/**
+ * One entry of the task catalog. The original built-ins are seed entries
+ * (see defaultTasks.ts) and behave exactly like user-created ones.
+ */
+export interface Task {
   id: string;
   label: string;
   category: TaskCategory;
   duration: string;
   description: string;
+  /** Default pomodoro duration in minutes */
   pomoDurationMinutes: number;
+  /** Work intervals needed before the timer completes the task; absent = 1 */
+  pomoIntervals?: number;
+  /**
+   * Time budget: focus from any number of sessions (stopped ones included)
+   * adds up toward pomoDurationMinutes; the task completes once it is
+   * reached. pomoIntervals doesn't apply.
+   */
+  timeBudget?: boolean;
+  /** Hidden tasks stay in the catalog but are off the board */
+  hidden: boolean;
+  /** Present on quantitative tasks; absent = plain checkbox task */
+  target?: TaskTarget;
+  /** Ordered sub-items; the task completes once all are ticked */
+  checklist?: ChecklistItem[];
+  /** Days the task applies to; absent = every day */
+  schedule?: TaskSchedule;
+  /** Makes this a weekly quota task instead of a daily one */
+  quota?: TaskQuota;
+  /** Ids of tasks that must be done first (when prerequisites are enforced) */
+  requires?: string[];
+  /** "HH:MM" home-zone time the task shouldn't start before */
+  earliestStart?: string;
+  /** "HH:MM" home-zone time the task is due by (within the discipline day) */
+  deadline?: string;
 }
 
+/** The editable fields of a Task */
+export type TaskInput = Omit<Task, "id" | "hidden">;
+
 /** A single logged failure event */
 export interface FailureEvent {
   timestamp: string;
@@ -62,6 +207,30 @@ export interface WeightEntry {
   unit: "kg" | "lbs";
 }
 
+/** How one task fared on an archived day, as it was defined then */
+export interface TaskResult {
+  id: string;
+  label: string;
+  category: TaskCategory;
+  done: boolean;
+  /** ISO timestamp of the completion (null if missed or unknown) */
+  completedAt: string | null;
+  /** Quantitative tasks only: the goal and the amount logged that day */
+  target?: TaskTarget;
+  amount?: number;
+  /** Checklist tasks only: each sub-item as it stood at the reset */
+  checklist?: Array<{ label: string; done: boolean }>;
+  /** Quota task — recorded for the weekly count, not in the day's totals */
+  quota?: boolean;
+  /** Deadline tasks only: the deadline then, and whether it was missed */
+  deadline?: string;
+  late?: boolean;
+  /** Changed in the correction window after the day closed */
+  amended?: boolean;
+  /** Minutes focused on it with the pomodoro timer (absent = none) */
+  focusMinutes?: number;
+}
+
 /**
  * Snapshot of a completed/missed discipline day — persisted for weekly review.
  * Archived automatically at each 04:00 reset.
@@ -76,98 +245,196 @@ export interface DayRecord {
   intent: string;
   /** Energy level 1–5 (0 = not set) */
   mood: number;
+  /** Per-task breakdown — absent on records archived before it existed */
+  taskResults?: TaskResult[];
+  /** True if GrindOS was never opened that day (backfilled by the reset) */
+  unopened?: boolean;
+  /** 0–100 including partial progress — absent on older records */
+  progressPercent?: number;
+  /** A quota window closing on this day fell short — ends the streak */
+  quotaMissed?: boolean;
+  /** How the streak policy judged the day at its reset */
+  verdict?: StreakVerdict;
+  /** Corrected after it closed — see `amendments` for the original values */
+  amended?: boolean;
+  /** Pomodoro focus minutes, all tasks — absent on older records */
+  focusMinutes?: number;
+}
+
+/** Rules deciding which days keep the streak alive (see lib/streakUtils.ts) */
+export interface StreakPolicy {
+  /** Weekdays (0 = Sunday) planned as rest: a missed one holds the streak */
+  restDays: number[];
+  /** Earn a freeze token every N consecutive counted days; 0 = never */
+  freezeEvery: number;
+  /** Most freeze tokens that can be banked */
+  maxFreezes: number;
+  /** A day counts once its progress reaches this percentage (100 = all) */
+  minPercent: number;
+  /** This many failures in a day break the streak; null = no limit */
+  failureLimit: number | null;
 }
 
-/** Ephemeral pomodoro timer state — NOT persisted */
+/** A closed day's effect on the streak, and why */
+export interface StreakVerdict {
+  kind: "counted" | "rest" | "frozen" | "broken";
+  /** Short explanation, e.g. "85% DONE", "FREEZE USED — 2/8 TASKS" */
+  reason: string;
+}
+
+/** The day the last reset closed, and the streak status it was judged from */
+export interface CorrectableDay {
+  disciplineDay: string;
+  before: StreakStatus;
+}
+
+/** Audit entry for one correction of a closed day (lib/correctionUtils.ts) */
+export interface DayAmendment {
+  /** ISO timestamp of the correction */
+  timestamp: string;
+  disciplineDay: string;
+  taskId: string;
+  /** Task label as archived */
+  label: string;
+  /** Completion before → after */
+  wasDone: boolean;
+  done: boolean;
+  /** The day as it stood before this correction */
+  original: {
+    tasksCompleted: number;
+    complete: boolean;
+    progressPercent: number | null;
+    verdict: StreakVerdict | null;
+    streak: number;
+  };
+}
+
+/** One quota's attainment over an archived calendar week */
+export interface QuotaResult {
+  id: string;
+  label: string;
+  period: TaskQuota["period"];
+  count: number;
+  target: number;
+  met: boolean;
+}
+
+/** Weekly quota snapshot, archived when a calendar week closes */
+export interface WeekRecord {
+  /** Monday (YYYY-MM-DD) */
+  weekStart: string;
+  quotas: QuotaResult[];
+}
+
+/** Dashboard layout: one panel per category, or a single ordered run sheet */
+export type DashboardView = "panels" | "runSheet";
+
+export type ActivityEventType =
+  | "protocol_initiated"
+  | "task_completed"
+  | "task_uncompleted"
+  | "task_progress"
+  | "checklist_item_toggled"
+  | "pomodoro_started"
+  | "pomodoro_stopped"
+  | "pomodoro_finished"
+  | "pomodoro_paused"
+  | "pomodoro_resumed"
+  | "break_started"
+  | "break_ended"
+  | "failure_logged"
+  | "deadline_missed"
+  | "streak_recomputed"
+  | "day_amended"
+  | "weight_logged"
+  | "setting_changed";
+
+/**
+ * One entry of the append-only activity log. A day's completion booleans,
+ * and when each task was completed, can be rebuilt by replaying these (see
+ * lib/activityLog.ts); archiveDay reads completion times from them.
+ */
+export interface ActivityEvent {
+  /** ISO timestamp + random suffix — unique and chronologically sortable */
+  id: string;
+  type: ActivityEventType;
+  timestamp: string;
+  disciplineDay: string;
+  /** Task.id, for task and pomodoro events */
+  taskId?: string;
+  /** Event details, e.g. intent/mood, weight value, setting name/value */
+  data?: Record<string, string | number | boolean>;
+}
+
+/** What a running timer is counting down — see lib/pomodoroUtils.ts */
+export type PomodoroPhase = "work" | "shortBreak" | "longBreak";
+
+/** Break lengths and how often the long one comes */
+export interface PomodoroSettings {
+  /** Minutes; 0 = no short break */
+  shortBreakMinutes: number;
+  /** Minutes; 0 = no long break */
+  longBreakMinutes: number;
+  /** A long break after this many work intervals; 0 = never */
+  longBreakEvery: number;
+}
+
+/** The running pomodoro timer — persisted, so it survives a reload */
 export interface ActivePomodoro {
+  /** The task worked on — for a break, the one whose interval preceded it */
   taskId: string;
-  /** Unix timestamp when the timer ends */
+  phase: PomodoroPhase;
+  /** Unix timestamp when the timer ends — pushed back by each resume */
   endTime: number;
   /** Total duration in ms (used to compute fill % in UI) */
   totalMs: number;
+  /** Unix timestamp the timer was paused at; null while it runs */
+  pausedAt: number | null;
+  /** Time spent paused so far, in ms (a pause in progress not included) */
+  pausedMs: number;
 }
 
-/** Maps built-in TaskId → boolean completion */
-export type TaskState = Record<TaskId, boolean>;
-
-// ─── Built-in Task Definitions ────────────────────────────────────────────────
-
-export const TASK_DEFINITIONS: TaskDefinition[] = [
-  {
-    id: "mobilityBlock1",
-    label: "MOBILITY BLOCK I",
-    category: "physical",
-    duration: "15m",
-    description: "Joints, hip flexors, thoracic spine",
-    pomoDurationMinutes: 15,
-  },
-  {
-    id: "mobilityBlock2",
-    label: "MOBILITY BLOCK II",
-    category: "physical",
-    duration: "15m",
-    description: "Hamstrings, shoulders, active stretching",
-    pomoDurationMinutes: 15,
-  },
-  {
-    id: "mobilityBlock3",
-    label: "MOBILITY BLOCK III",
-    category: "physical",
-    duration: "15m",
-    description: "Full body flow integration",
-    pomoDurationMinutes: 15,
-  },
-  {
-    id: "deepWork1",
-    label: "DEEP WORK SESSION I",
-    category: "cognitive",
-    duration: "60m",
-    description: "High-priority singular focus block",
-    pomoDurationMinutes: 60,
-  },
-  {
-    id: "deepWork2",
-    label: "DEEP WORK SESSION II",
-    category: "cognitive",
-    duration: "60m",
-    description: "High-priority singular focus block",
-    pomoDurationMinutes: 60,
-  },
-  {
-    id: "deepWork3",
-    label: "DEEP WORK SESSION III",
-    category: "cognitive",
-    duration: "60m",
-    description: "High-priority singular focus block",
-    pomoDurationMinutes: 60,
-  },
-  {
-    id: "deepWork4",
-    label: "DEEP WORK SESSION IV",
-    category: "cognitive",
-    duration: "60m",
-    description: "High-priority singular focus block",
-    pomoDurationMinutes: 60,
-  },
-  {
-    id: "reading20Pages",
-    label: "READ 20 PAGES",
-    category: "intellectual",
-    duration: "—",
-    description: "Non-fiction or technical material only",
-    pomoDurationMinutes: 30,
-  },
-];
+/** One work interval, kept once it ends — see lib/pomodoroUtils.ts */
+export interface PomodoroSession {
+  /** ISO timestamp the interval started (one timer at a time: unique) */
+  timestamp: string;
+  /** ISO timestamp it ran out, was stopped, or was dropped by the reset */
+  endedAt: string;
+  /** The board day it ran on */
+  disciplineDay: string;
+  taskId: string;
+  /** Task label at the time */
+  label: string;
+  /** Interval length as started, in ms */
+  plannedMs: number;
+  /** Countdown actually run, in ms (paused time excluded) */
+  focusedMs: number;
+  /** Time spent paused, in ms */
+  pausedMs: number;
+  outcome: "completed" | "stopped" | "abandoned";
+}
+
+/**
+ * Set when storage misbehaved:
+ *   - rejected — a stored payload failed validation; defaults were loaded
+ *   - degraded — IndexedDB is unavailable or a write failed
+ */
+export interface StorageRecovery {
+  kind: "rejected" | "degraded";
+  /** localStorage key holding the rejected payload (null if backup failed) */
+  backupKey: string | null;
+  /** Validation / migration problems, human-readable */
+  errors: string[];
+}
 
 // ─── Store Shape ──────────────────────────────────────────────────────────────
 
 export interface GrindState {
   // ── Persisted ─────────────────────────────────────────
-  tasks: TaskState;
-  /** User-defined tasks appended after built-ins */
-  customTasks: CustomTask[];
-  /** Completion state for custom tasks, keyed by CustomTask.id */
-  customTaskCompletions: Record<string, boolean>;
+  /** Every task, in board order — seeded from DEFAULT_TASKS */
+  taskCatalog: Task[];
+  /** Completion state for the day on the board, keyed by Task.id */
+  completions: Record<string, boolean>;
   streak: number;
   lastResetDisciplineDay: string;
   /** ISO timestamp of protocol initiation; null = lockout active */
@@ -181,29 +448,165 @@ export interface GrindState {
   weightLog: WeightEntry[];
   /** Historical day records archived at each 04:00 reset */
   dayHistory: Record<string, DayRecord>;
-  /** If true, task N+1 is locked until task N is complete */
+  /** Weekly quota records, keyed by the week's Monday */
+  weekHistory: Record<string, WeekRecord>;
+  /** If true, a task is locked until the tasks it requires are complete */
   enforceTaskOrder: boolean;
   /** If true, tasks can only be checked by running the pomodoro timer */
   enforcePomodoro: boolean;
+  /** Break lengths and long-break frequency for pomodoro cycles */
+  pomodoroSettings: PomodoroSettings;
+  /** Work intervals finished since the last long break (today) */
+  pomodoroCycle: number;
+  /** The running (or paused) timer, if any */
+  activePomodoro: ActivePomodoro | null;
+  /** Every work interval that ended, oldest first */
+  pomodoroSessions: PomodoroSession[];
+  /** If true, a deadline passing on an incomplete task logs a failure */
+  deadlineFailures: boolean;
+  /** Which days keep the streak alive */
+  streakPolicy: StreakPolicy;
+  /** Banked freeze tokens — each covers one missed day */
+  freezeTokens: number;
+  /** Consecutive counted days toward the next freeze token */
+  freezeProgress: number;
+  /** Hours after the day boundary the previous day can be amended; 0 = off */
+  correctionWindowHours: number;
+  /** Set at each reset; null until the first day has closed */
+  correctableDay: CorrectableDay | null;
+  /** Audit trail of every correction, oldest first */
+  amendments: DayAmendment[];
+  /** Append-only, chronological log of every meaningful action */
+  activityLog: ActivityEvent[];
+  /** Hour (0–23, home zone) at which a new discipline day starts */
+  resetHour: number;
+  /** Home IANA time zone; null = the device's current zone */
+  timeZone: string | null;
+  /** How the dashboard lays out the board */
+  dashboardView: DashboardView;
+  /** Amount logged per quantitative task for the day on the board */
+  progress: Record<string, number>;
+  /** Ticked checklist sub-items for the day on the board (checklistKey) */
+  checkedItems: Record<string, boolean>;
 
   // ── Ephemeral (NOT persisted) ──────────────────────────
   isFailureActive: boolean;
-  activePomodoro: ActivePomodoro | null;
+  storageRecovery: StorageRecovery | null;
+  /** False until persisted state has been loaded (storage is async) */
+  hasHydrated: boolean;
+  /** Undo/redo stacks — cleared at each 04:00 reset */
+  journal: Journal;
 
   // ── Actions ───────────────────────────────────────────
   /** Updated signature: accepts intent + mood captured at lockout overlay */
   initiateProtocol: (intent: string, mood: number) => void;
-  toggleTask: (id: TaskId) => void;
-  toggleCustomTask: (id: string) => void;
-  addCustomTask: (def: Omit<CustomTask, "id">) => void;
-  removeCustomTask: (id: string) => void;
+  /**
+   * Checks / unchecks a task. On a quantitative task checking fills the
+   * progress up to the target and unchecking clears it; on a checklist task
+   * it ticks / clears every sub-item.
+   */
+  toggleTask: (id: string) => void;
+  /**
+   * Sets the logged amount of a quantitative task (increments are computed
+   * by the caller). Reaching the target completes the task — except under
+   * enforcePomodoro, where completion still needs the timer — and dropping
+   * below it un-completes it.
+   */
+  setTaskProgress: (id: string, amount: number) => void;
+  /**
+   * Ticks / unticks one checklist sub-item. Ticking the last one completes
+   * the task (under enforcePomodoro the timer is still required), and
+   * unticking any item of a completed task un-completes it.
+   */
+  toggleChecklistItem: (taskId: string, itemId: string) => void;
+  addTask: (def: TaskInput) => void;
+  updateTask: (id: string, changes: Partial<TaskInput>) => void;
+  setTaskHidden: (id: string, hidden: boolean) => void;
+  /**
+   * Moves a task to `toIndex` in the catalog. Catalog order is the protocol
+   * order the run sheet follows; locks come from prerequisites instead.
+   */
+  moveTask: (id: string, toIndex: number) => void;
+  removeTask: (id: string) => void;
   triggerFailure: () => void;
   performDailyReset: (currentDisciplineDay: string) => void;
   logWeight: (value: number, unit: "kg" | "lbs") => void;
+  /**
+   * Starts a work interval. No-op while any timer runs (in this or, via
+   * sync, another tab) — breaks included.
+   */
   startPomodoro: (taskId: string, endTime: number, totalMs: number) => void;
+  /**
+   * Abandons a work interval, or skips a break. The focus of a stopped
+   * interval still counts toward a time-budget task, and completes it once
+   * the budget is met.
+   */
   stopPomodoro: () => void;
+  /** Freezes the countdown (work or break); the time left is kept */
+  pausePomodoro: () => void;
+  /** Restarts a paused countdown, pushing its end back by the pause */
+  resumePomodoro: () => void;
+  /**
+   * Timer reached zero. After a work interval: advances the cycle, and if
+   * it was the task's last needed interval (or met its time budget) marks
+   * the task complete (filling a quantitative task up to its target,
+   * ticking a checklist); then starts the break that is due. After a
+   * break: clears the timer. Events are stamped with the moment the timer
+   * ran out, and a break starts from that moment. If the task has left
+   * the board the timer is dropped instead. No-op while paused or not yet
+   * run out, so idempotent.
+   */
+  finishPomodoro: () => void;
+  /**
+   * Finishes a timer that ran out while no tab was open — and the break it
+   * started, if that ran out as well. A timer that ran out past the board
+   * day's boundary is left for the reset to drop, like a live one; a timer
+   * whose task is no longer on the board is dropped. Called once storage
+   * has loaded.
+   */
+  settlePomodoro: () => void;
+  setPomodoroSettings: (settings: PomodoroSettings) => void;
   toggleEnforceTaskOrder: () => void;
   toggleEnforcePomodoro: () => void;
+  toggleDeadlineFailures: () => void;
+  /**
+   * Logs a deadline_missed event for each incomplete board task whose
+   * deadline has passed (once per task and day) and, with deadlineFailures
+   * on, one failure for the batch. Polled by useDeadlineWatch.
+   */
+  recordMissedDeadlines: () => void;
+  /**
+   * Changes the day boundary. Takes effect for the day on the board only
+   * once the new boundary is crossed — see performDailyReset.
+   */
+  setDayBoundary: (resetHour: number, timeZone: string | null) => void;
+  setDashboardView: (view: DashboardView) => void;
+  /** Applies from the next reset on; past verdicts are kept */
+  setStreakPolicy: (policy: StreakPolicy) => void;
+  /**
+   * Re-judges every archived day under the current policy and rebuilds the
+   * streak, freeze tokens and day verdicts from `dayHistory`. Not undoable.
+   */
+  recomputeStreak: () => void;
+  setCorrectionWindow: (hours: number) => void;
+  /**
+   * Marks a task of the day open for correction done / not done, recounts
+   * the day, re-judges its streak verdict and appends to `amendments`.
+   * No-op outside the correction window.
+   */
+  amendClosedDay: (taskId: string, done: boolean) => void;
+  dismissStorageRecovery: () => void;
+  /** Internal — called by the storage adapter on a failure (see idbStorage) */
+  reportStorageError: (message: string) => void;
+  /** Internal — called by persist once rehydration finished or failed */
+  markHydrated: (error?: unknown) => void;
+  /**
+   * Replaces the whole persisted slice (backup restore — see resolveRestore
+   * for what becomes of a running timer)
+   */
+  restoreState: (state: PersistedGrindState) => void;
+  undo: () => void;
+  redo: () => void;
 
   // ── Computed selectors ─────────────────────────────────
   isDayComplete: () => boolean;
@@ -212,18 +615,409 @@ export interface GrindState {
   lockedTaskIds: () => Set<string>;
 }
 
-// ─── Initial values ───────────────────────────────────────────────────────────
+/** The slice of GrindState written to storage (see partialize) */
+export type PersistedGrindState = Pick<
+  GrindState,
+  | "taskCatalog"
+  | "completions"
+  | "streak"
+  | "lastResetDisciplineDay"
+  | "protocolStartTime"
+  | "failureHistory"
+  | "dailyIntents"
+  | "dailyMoods"
+  | "weightLog"
+  | "dayHistory"
+  | "weekHistory"
+  | "enforceTaskOrder"
+  | "enforcePomodoro"
+  | "pomodoroSettings"
+  | "pomodoroCycle"
+  | "activePomodoro"
+  | "pomodoroSessions"
+  | "deadlineFailures"
+  | "streakPolicy"
+  | "freezeTokens"
+  | "freezeProgress"
+  | "correctionWindowHours"
+  | "correctableDay"
+  | "amendments"
+  | "activityLog"
+  | "resetHour"
+  | "timeZone"
+  | "dashboardView"
+  | "progress"
+  | "checkedItems"
+>;
+
+/** Extracts the persisted slice — shared by partialize and backups */
+export function pickPersisted(state: PersistedGrindState): PersistedGrindState {
+  return {
+    taskCatalog: state.taskCatalog,
+    completions: state.completions,
+    streak: state.streak,
+    lastResetDisciplineDay: state.lastResetDisciplineDay,
+    protocolStartTime: state.protocolStartTime,
+    failureHistory: state.failureHistory,
+    dailyIntents: state.dailyIntents,
+    dailyMoods: state.dailyMoods,
+    weightLog: state.weightLog,
+    dayHistory: state.dayHistory,
+    weekHistory: state.weekHistory,
+    enforceTaskOrder: state.enforceTaskOrder,
+    enforcePomodoro: state.enforcePomodoro,
+    pomodoroSettings: state.pomodoroSettings,
+    pomodoroCycle: state.pomodoroCycle,
+    activePomodoro: state.activePomodoro,
+    pomodoroSessions: state.pomodoroSessions,
+    deadlineFailures: state.deadlineFailures,
+    streakPolicy: state.streakPolicy,
+    freezeTokens: state.freezeTokens,
+    freezeProgress: state.freezeProgress,
+    correctionWindowHours: state.correctionWindowHours,
+    correctableDay: state.correctableDay,
+    amendments: state.amendments,
+    activityLog: state.activityLog,
+    resetHour: state.resetHour,
+    timeZone: state.timeZone,
+    dashboardView: state.dashboardView,
+    progress: state.progress,
+    checkedItems: state.checkedItems,
+    // isFailureActive, storageRecovery, hasHydrated intentionally omitted
+  };
+}
+
+/**
+ * The daily tasks on the board for `disciplineDay`: the catalog minus
+ * hidden tasks, quota tasks and tasks not scheduled that day, in order.
+ */
+export function boardTasks(catalog: Task[], disciplineDay: string): Task[] {
+  return catalog.filter(
+    (t) => !t.hidden && !t.quota && isScheduledOn(t.schedule, disciplineDay)
+  );
+}
+
+/**
+ * True if no daily task is scheduled on `disciplineDay` although the
+ * catalog has visible tasks (quota tasks included). A rest day counts as
+ * complete; an empty catalog never does.
+ */
+export function isRestDay(catalog: Task[], disciplineDay: string): boolean {
+  return (
+    boardTasks(catalog, disciplineDay).length === 0 &&
+    catalog.some((t) => !t.hidden)
+  );
+}
+
+/** True if every task on the board for `disciplineDay` is done */
+export function isBoardComplete(
+  catalog: Task[],
+  disciplineDay: string,
+  completions: Record<string, boolean>
+): boolean {
+  const board = boardTasks(catalog, disciplineDay);
+  if (board.length === 0) return isRestDay(catalog, disciplineDay);
+  return board.every((t) => completions[t.id]);
+}
+
+/** Key of a checklist sub-item in `checkedItems` */
+export function checklistKey(taskId: string, itemId: string): string {
+  return `${taskId}/${itemId}`;
+}
+
+/** The board's live per-task state, as needed to measure progress */
+type TaskProgressState = Pick<
+  PersistedGrindState,
+  "completions" | "progress" | "checkedItems"
+>;
+
+/**
+ * How far along a task is, 0–1: completed tasks count fully, quantitative
+ * ones in proportion to the amount logged, checklist ones to the items
+ * ticked, others not at all.
+ */
+export function taskFraction(task: Task, state: TaskProgressState): number {
+  if (state.completions[task.id]) return 1;
+  if (task.target && task.target.amount > 0) {
+    return Math.min((state.progress[task.id] ?? 0) / task.target.amount, 1);
+  }
+  if (task.checklist && task.checklist.length > 0) {
+    const ticked = task.checklist.filter(
+      (item) => state.checkedItems[checklistKey(task.id, item.id)]
+    ).length;
+    return ticked / task.checklist.length;
+  }
+  return 0;
+}
+
+/** Board progress 0–100 for `disciplineDay`, partial progress included */
+export function boardProgressPercent(
+  state: TaskProgressState & Pick<PersistedGrindState, "taskCatalog">,
+  disciplineDay: string
+): number {
+  const board = boardTasks(state.taskCatalog, disciplineDay);
+  if (board.length === 0) {
+    return isRestDay(state.taskCatalog, disciplineDay) ? 100 : 0;
+  }
+  const sum = board.reduce((acc, t) => acc + taskFraction(t, state), 0);
+  return Math.round((sum / board.length) * 100);
+}
+
+/** `checkedItems` with every sub-item of `task` set to `done` */
+function withChecklist(
+  checkedItems: Record<string, boolean>,
+  task: Task,
+  done: boolean
+): Record<string, boolean> {
+  const next = { ...checkedItems };
+  for (const item of task.checklist ?? []) {
+    next[checklistKey(task.id, item.id)] = done;
+  }
+  return next;
+}
+
+/**
+ * Builds the DayRecord for `disciplineDay` from the live task state.
+ * Only meaningful for the day currently on the board
+ * (i.e. `state.lastResetDisciplineDay`).
+ */
+export function archiveDay(
+  state: PersistedGrindState,
+  disciplineDay: string
+): DayRecord {
+  const board = boardTasks(state.taskCatalog, disciplineDay);
+  const tasksCompleted = board.filter((t) => state.completions[t.id]).length;
+  const totalTasks = board.length;
+  const completedAt = deriveCompletionTimes(state.activityLog, disciplineDay);
+  const focus = focusMinutesByTask(state.pomodoroSessions, disciplineDay);
+  // Quota tasks ride along (flagged) so weekly counts can be derived later
+  const recorded = [...board, ...quotaTasks(state.taskCatalog)];
+  const taskResults: TaskResult[] = recorded.map((task) => {
+    const done = state.completions[task.id] ?? false;
+    return {
+      id: task.id,
+      label: task.label,
+      category: task.category,
+      done,
+      completedAt: done ? (completedAt[task.id] ?? null) : null,
+      ...(task.target && {
+        target: task.target,
+        amount: state.progress[task.id] ?? 0,
+      }),
+      ...(task.checklist && {
+        checklist: task.checklist.map((item) => ({
+          label: item.label,
+          done: state.checkedItems[checklistKey(task.id, item.id)] ?? false,
+        })),
+      }),
+      ...(task.quota && { quota: true }),
+      ...(task.deadline && {
+        deadline: task.deadline,
+        late: isLateCompletion(task, completedAt[task.id] ?? null),
+      }),
+      ...(focus[task.id] > 0 && { focusMinutes: focus[task.id] }),
+    };
+  });
+
+  return {
+    disciplineDay,
+    complete: isBoardComplete(
+      state.taskCatalog,
+      disciplineDay,
+      state.completions
+    ),
+    tasksCompleted,
+    totalTasks,
+    failureCount: state.failureHistory.filter(
+      (f) => f.disciplineDay === disciplineDay
+    ).length,
+    intent: state.dailyIntents[disciplineDay] ?? "",
+    mood: state.dailyMoods[disciplineDay] ?? 0,
+    taskResults,
+    progressPercent: boardProgressPercent(state, disciplineDay),
+    focusMinutes: focusMinutes(state.pomodoroSessions, disciplineDay),
+  };
+}
 
-const initialTaskState: TaskState = {
-  mobilityBlock1: false,
-  mobilityBlock2: false,
-  mobilityBlock3: false,
-  deepWork1: false,
-  deepWork2: false,
-  deepWork3: false,
-  deepWork4: false,
-  reading20Pages: false,
-};
+/**
+ * Record for a day the app was never opened: a miss with nothing logged
+ * beyond failures recorded elsewhere (e.g. merged from another device) —
+ * unless nothing was scheduled that day, which makes it a rest day.
+ */
+function unopenedDay(
+  state: PersistedGrindState,
+  disciplineDay: string
+): DayRecord {
+  return {
+    disciplineDay,
+    complete: isRestDay(state.taskCatalog, disciplineDay),
+    tasksCompleted: 0,
+    totalTasks: boardTasks(state.taskCatalog, disciplineDay).length,
+    failureCount: state.failureHistory.filter(
+      (f) => f.disciplineDay === disciplineDay
+    ).length,
+    intent: "",
+    mood: 0,
+    unopened: true,
+  };
+}
+
+/** Longest absence backfilled by one reset; older days stay without data */
+const MAX_BACKFILL_DAYS = 366;
+
+/**
+ * History compaction: once a day is archived its DayRecord holds the intent
+ * and mood, so the per-day entries in dailyIntents / dailyMoods are dropped.
+ */
+function dropArchivedDays<T>(
+  log: Record<string, T>,
+  dayHistory: Record<string, DayRecord>
+): Record<string, T> {
+  const compacted: Record<string, T> = {};
+  for (const [day, value] of Object.entries(log)) {
+    if (!dayHistory[day]) compacted[day] = value;
+  }
+  return compacted;
+}
+
+/**
+ * Applies `patch` as one undoable action (see lib/journal.ts).
+ */
+function commitJournaled(
+  set: (partial: Partial<GrindState>) => void,
+  get: () => GrindState,
+  label: string,
+  patch: Partial<GrindState>
+): void {
+  const state = get();
+  set({
+    ...patch,
+    journal: pushEntry(state.journal, recordChange(label, state, patch)),
+  });
+}
+
+/** Journal label for a task toggle */
+function toggleLabel(state: GrindState, id: string, done: boolean): string {
+  const task = state.taskCatalog.find((t) => t.id === id);
+  return `${done ? "CHECK" : "UNCHECK"} ${task?.label ?? id}`;
+}
+
+/** Journal label for a progress entry, e.g. "READING 12/20 PAGES" */
+function progressLabel(task: Task, amount: number): string {
+  return `${task.label} ${amount}/${task.target?.amount} ${task.target?.unit}`;
+}
+
+/**
+ * Drops the running timer. A work interval still on the clock is kept as an
+ * abandoned session, its focus so far counting for `disciplineDay`; a break
+ * leaves nothing.
+ */
+function dropTimer(
+  state: GrindState,
+  disciplineDay: string
+): Pick<GrindState, "activePomodoro" | "pomodoroSessions"> {
+  const timer = state.activePomodoro;
+  if (timer?.phase !== "work" || disciplineDay === "") {
+    return { activePomodoro: null, pomodoroSessions: state.pomodoroSessions };
+  }
+  const label =
+    state.taskCatalog.find((t) => t.id === timer.taskId)?.label ?? timer.taskId;
+  return {
+    activePomodoro: null,
+    pomodoroSessions: [
+      ...state.pomodoroSessions,
+      closeSession(
+        timer,
+        "abandoned",
+        disciplineDay,
+        label,
+        Math.min(Date.now(), timer.pausedAt ?? timer.endTime)
+      ),
+    ],
+  };
+}
+
+/**
+ * The timer is only shown on its task's row, so once the task is off the
+ * board (hidden, removed, unscheduled) the timer is dropped. Null while the
+ * task is still on the board — daily or weekly quota list.
+ */
+function dropTimerOffBoard(
+  state: GrindState
+): Pick<GrindState, "activePomodoro" | "pomodoroSessions"> | null {
+  const timer = state.activePomodoro;
+  const day = state.lastResetDisciplineDay;
+  if (!timer || onBoard(state.taskCatalog, day, timer.taskId)) return null;
+  return dropTimer(state, day);
+}
+
+/** Whether the task has a row (and so a timer) today: daily board or quotas */
+function onBoard(catalog: Task[], disciplineDay: string, id: string): boolean {
+  return [...boardTasks(catalog, disciplineDay), ...quotaTasks(catalog)].some(
+    (t) => t.id === id
+  );
+}
+
+/**
+ * Completion by the timer: checks the task, fills a quantitative task up
+ * to its target and ticks a checklist
+ */
+function timerCompletion(
+  state: GrindState,
+  id: string,
+  task: Task | undefined
+): Partial<GrindState> {
+  const target = task?.target;
+  return {
+    completions: { ...state.completions, [id]: true },
+    ...(task?.checklist && {
+      checkedItems: withChecklist(state.checkedItems, task, true),
+    }),
+    ...(target && {
+      progress: {
+        ...state.progress,
+        [id]: Math.max(state.progress[id] ?? 0, target.amount),
+      },
+    }),
+  };
+}
+
+/**
+ * An event of the day on the board. Never stamped with an earlier day than
+ * the board's — after the day boundary moved later, the clock's day may be
+ * one that was already archived.
+ */
+function boardEvent(
+  state: Pick<GrindState, "lastResetDisciplineDay">,
+  type: ActivityEventType,
+  fields: Pick<ActivityEvent, "taskId" | "data"> = {},
+  at?: Date
+): ActivityEvent {
+  return createEvent(type, fields, at, state.lastResetDisciplineDay);
+}
+
+/** task_completed / task_uncompleted event for a toggle */
+function taskEvent(
+  state: Pick<GrindState, "lastResetDisciplineDay">,
+  taskId: string,
+  done: boolean,
+  at?: Date
+): ActivityEvent {
+  return boardEvent(
+    state,
+    done ? "task_completed" : "task_uncompleted",
+    { taskId },
+    at
+  );
+}
+
+function settingEvent(
+  state: Pick<GrindState, "lastResetDisciplineDay">,
+  setting: string,
+  value: string | boolean
+): ActivityEvent {
+  return boardEvent(state, "setting_changed", { data: { setting, value } });
+}
 
 // ─── Store ────────────────────────────────────────────────────────────────────
 
@@ -231,9 +1025,8 @@ export const useGrindStore = create<GrindState>()(
   persist(
     (set, get) => ({
       // ── Initial persisted state ────────────────────────
-      tasks: { ...initialTaskState },
-      customTasks: [],
-      customTaskCompletions: {},
+      taskCatalog: DEFAULT_TASKS,
+      completions: {},
       streak: 0,
       lastResetDisciplineDay: "",
       protocolStartTime: null,
@@ -242,223 +1035,927 @@ export const useGrindStore = create<GrindState>()(
       dailyMoods: {},
       weightLog: [],
       dayHistory: {},
+      weekHistory: {},
       enforceTaskOrder: false,
       enforcePomodoro: false,
+      pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+      pomodoroCycle: 0,
+      activePomodoro: null,
+      pomodoroSessions: [],
+      deadlineFailures: false,
+      streakPolicy: DEFAULT_STREAK_POLICY,
+      freezeTokens: 0,
+      freezeProgress: 0,
+      correctionWindowHours: DEFAULT_CORRECTION_WINDOW_HOURS,
+      correctableDay: null,
+      amendments: [],
+      activityLog: [],
+      resetHour: DEFAULT_RESET_HOUR,
+      timeZone: null,
+      dashboardView: "panels",
+      progress: {},
+      checkedItems: {},
 
       // ── Ephemeral ──────────────────────────────────────
       isFailureActive: false,
-      activePomodoro: null,
+      storageRecovery: null,
+      hasHydrated: false,
+      journal: EMPTY_JOURNAL,
 
       // ── Actions ───────────────────────────────────────
 
       initiateProtocol: (intent: string, mood: number) => {
-        const disciplineDay = getDisciplineDay();
+        const event = boardEvent(get(), "protocol_initiated", {
+          data: { intent, mood },
+        });
+        const { disciplineDay } = event;
         set((state) => ({
-          protocolStartTime: new Date().toISOString(),
+          protocolStartTime: event.timestamp,
           dailyIntents: { ...state.dailyIntents, [disciplineDay]: intent },
           dailyMoods: { ...state.dailyMoods, [disciplineDay]: mood },
+          activityLog: appendEvents(state.activityLog, event),
         }));
       },
 
-      toggleTask: (id: TaskId) => {
-        const { tasks, enforcePomodoro, activePomodoro } = get();
+      toggleTask: (id: string) => {
+        const { completions, enforcePomodoro, activePomodoro } = get();
         // If pomodoro enforcement is on, only allow completion via pomodoro
-        if (enforcePomodoro && !tasks[id]) {
+        if (enforcePomodoro && !completions[id]) {
           // Only allow manual toggle if this task just finished a pomodoro
-          if (!activePomodoro || activePomodoro.taskId !== id) return;
+          if (
+            !activePomodoro ||
+            activePomodoro.taskId !== id ||
+            activePomodoro.phase !== "work"
+          ) {
+            return;
+          }
         }
-        set({ tasks: { ...tasks, [id]: !tasks[id] } });
+        const done = !completions[id];
+        const { taskCatalog, progress, checkedItems } = get();
+        const task = taskCatalog.find((t) => t.id === id);
+        const target = task?.target;
+        commitJournaled(set, get, toggleLabel(get(), id, done), {
+          completions: { ...completions, [id]: done },
+          ...(task?.checklist && {
+            checkedItems: withChecklist(checkedItems, task, done),
+          }),
+          ...(target && {
+            progress: {
+              ...progress,
+              [id]: done ? Math.max(progress[id] ?? 0, target.amount) : 0,
+            },
+          }),
+          activityLog: appendEvents(
+            get().activityLog,
+            taskEvent(get(), id, done)
+          ),
+        });
       },
 
-      toggleCustomTask: (id: string) => {
-        const { customTaskCompletions, enforcePomodoro, activePomodoro } = get();
-        if (enforcePomodoro && !customTaskCompletions[id]) {
-          if (!activePomodoro || activePomodoro.taskId !== id) return;
-        }
-        set({
-          customTaskCompletions: {
-            ...customTaskCompletions,
-            [id]: !customTaskCompletions[id],
-          },
+      setTaskProgress: (id: string, amount: number) => {
+        const state = get();
+        const task = state.taskCatalog.find((t) => t.id === id);
+        if (!task?.target || !Number.isFinite(amount)) return;
+        const value = Math.max(0, amount);
+        if (value === (state.progress[id] ?? 0)) return;
+
+        const wasDone = state.completions[id] ?? false;
+        const done =
+          value >= task.target.amount && (wasDone || !state.enforcePomodoro);
+        const events = [
+          boardEvent(state, "task_progress", {
+            taskId: id,
+            data: { amount: value },
+          }),
+        ];
+        if (done !== wasDone) events.push(taskEvent(state, id, done));
+        commitJournaled(set, get, progressLabel(task, value), {
+          progress: { ...state.progress, [id]: value },
+          completions: { ...state.completions, [id]: done },
+          activityLog: appendEvents(state.activityLog, ...events),
         });
       },
 
-      addCustomTask: (def: Omit<CustomTask, "id">) => {
-        const id = `custom_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
-        set((state) => ({
-          customTasks: [...state.customTasks, { ...def, id }],
-        }));
+      toggleChecklistItem: (taskId: string, itemId: string) => {
+        const state = get();
+        const task = state.taskCatalog.find((t) => t.id === taskId);
+        const item = task?.checklist?.find((i) => i.id === itemId);
+        if (!task?.checklist || !item) return;
+
+        const key = checklistKey(taskId, itemId);
+        const ticked = !state.checkedItems[key];
+        const checkedItems = { ...state.checkedItems, [key]: ticked };
+        const allTicked = task.checklist.every(
+          (i) => checkedItems[checklistKey(taskId, i.id)]
+        );
+        const wasDone = state.completions[taskId] ?? false;
+        const done = allTicked && (wasDone || !state.enforcePomodoro);
+        const events = [
+          boardEvent(state, "checklist_item_toggled", {
+            taskId,
+            data: { itemId, done: ticked },
+          }),
+        ];
+        if (done !== wasDone) events.push(taskEvent(state, taskId, done));
+        commitJournaled(
+          set,
+          get,
+          `${ticked ? "TICK" : "UNTICK"} ${task.label} · ${item.label}`,
+          {
+            checkedItems,
+            completions: { ...state.completions, [taskId]: done },
+            activityLog: appendEvents(state.activityLog, ...events),
+          }
+        );
       },
 
-      removeCustomTask: (id: string) => {
-        set((state) => {
-          const completions = { ...state.customTaskCompletions };
-          delete completions[id];
-          return {
-            customTasks: state.customTasks.filter((t) => t.id !== id),
-            customTaskCompletions: completions,
-          };
+      addTask: (def: TaskInput) => {
+        const id = `task_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+        commitJournaled(set, get, `ADD ${def.label}`, {
+          taskCatalog: [...get().taskCatalog, { ...def, id, hidden: false }],
+        });
+      },
+
+      updateTask: (id: string, changes: Partial<TaskInput>) => {
+        const { taskCatalog } = get();
+        const task = taskCatalog.find((t) => t.id === id);
+        if (!task) return;
+        commitJournaled(set, get, `EDIT ${task.label}`, {
+          taskCatalog: taskCatalog.map((t) =>
+            t.id === id ? { ...t, ...changes } : t
+          ),
+        });
+        // Not journaled: undoing the edit doesn't restart the timer
+        const dropped = dropTimerOffBoard(get());
+        if (dropped) set(dropped);
+      },
+
+      setTaskHidden: (id: string, hidden: boolean) => {
+        const { taskCatalog } = get();
+        const task = taskCatalog.find((t) => t.id === id);
+        if (!task || task.hidden === hidden) return;
+        commitJournaled(set, get, `${hidden ? "HIDE" : "SHOW"} ${task.label}`, {
+          taskCatalog: taskCatalog.map((t) =>
+            t.id === id ? { ...t, hidden } : t
+          ),
+        });
+        const dropped = dropTimerOffBoard(get());
+        if (dropped) set(dropped);
+      },
+
+      moveTask: (id: string, toIndex: number) => {
+        const { taskCatalog } = get();
+        const from = taskCatalog.findIndex((t) => t.id === id);
+        const to = Math.max(0, Math.min(toIndex, taskCatalog.length - 1));
+        if (from === -1 || from === to) return;
+        const reordered = [...taskCatalog];
+        const [task] = reordered.splice(from, 1);
+        reordered.splice(to, 0, task);
+        commitJournaled(set, get, `MOVE ${task.label}`, {
+          taskCatalog: reordered,
+        });
+      },
+
+      removeTask: (id: string) => {
+        const state = get();
+        const task = state.taskCatalog.find((t) => t.id === id);
+        if (!task) return;
+        const completions = { ...state.completions };
+        delete completions[id];
+        const progress = { ...state.progress };
+        delete progress[id];
+        const checkedItems = { ...state.checkedItems };
+        for (const item of task.checklist ?? []) {
+          delete checkedItems[checklistKey(id, item.id)];
+        }
+        // Before the task is gone, so the session keeps its label
+        if (state.activePomodoro?.taskId === id) {
+          set(dropTimer(state, state.lastResetDisciplineDay));
+        }
+        commitJournaled(set, get, `REMOVE ${task.label}`, {
+          taskCatalog: state.taskCatalog
+            .filter((t) => t.id !== id)
+            .map((t) =>
+              t.requires?.includes(id)
+                ? { ...t, requires: t.requires.filter((r) => r !== id) }
+                : t
+            ),
+          completions,
+          progress,
+          checkedItems,
         });
       },
 
       triggerFailure: () => {
-        const timestamp = new Date().toISOString();
-        const disciplineDay = getDisciplineDay();
-        set((state) => ({
-          failureHistory: [...state.failureHistory, { timestamp, disciplineDay }],
-          isFailureActive: true,
-        }));
+        const event = boardEvent(get(), "failure_logged");
+        const { timestamp, disciplineDay } = event;
+        // The red overlay itself is not undoable — only the log entries
+        commitJournaled(set, get, "LOG FAILURE", {
+          failureHistory: [...get().failureHistory, { timestamp, disciplineDay }],
+          activityLog: appendEvents(get().activityLog, event),
+        });
+        set({ isFailureActive: true });
         setTimeout(() => set({ isFailureActive: false }), 10_000);
       },
 
       performDailyReset: (currentDisciplineDay: string) => {
         const state = get();
-        if (state.lastResetDisciplineDay === currentDisciplineDay) return;
+        // Only ever move forward: after a boundary change the current day
+        // can compare EARLIER than the board (e.g. reset hour moved later
+        // mid-day) — the board day then simply runs until the new boundary.
+        if (currentDisciplineDay <= state.lastResetDisciplineDay) return;
 
         // ── Archive the day being closed ─────────────────
-        const allBuiltinComplete = TASK_DEFINITIONS.every(
-          (t) => state.tasks[t.id]
-        );
-        const allCustomComplete =
-          state.customTasks.length === 0 ||
-          state.customTasks.every((t) => state.customTaskCompletions[t.id]);
-        const dayWasComplete = allBuiltinComplete && allCustomComplete;
-
-        const builtinDoneCount = TASK_DEFINITIONS.filter(
-          (t) => state.tasks[t.id]
-        ).length;
-        const customDoneCount = state.customTasks.filter(
-          (t) => state.customTaskCompletions[t.id]
-        ).length;
-        const totalTasks =
-          TASK_DEFINITIONS.length + state.customTasks.length;
-
         const closingDay = state.lastResetDisciplineDay;
         const newDayHistory = { ...state.dayHistory };
 
+        // A work interval still on the clock is dropped — its focus so far
+        // counts for the day it ran on
+        const { pomodoroSessions } = dropTimer(state, closingDay);
+
         // Only archive if there WAS a previous day (not the very first run)
+        const closingRecord =
+          closingDay !== ""
+            ? archiveDay({ ...state, pomodoroSessions }, closingDay)
+            : null;
+        if (closingRecord) newDayHistory[closingDay] = closingRecord;
+
+        // ── Backfill days the app was closed through ─────
+        const skipped =
+          closingDay !== ""
+            ? getDisciplineDaysBetween(
+                closingDay,
+                currentDisciplineDay,
+                MAX_BACKFILL_DAYS
+              )
+            : [];
+        for (const day of skipped) {
+          newDayHistory[day] ??= unopenedDay(state, day);
+        }
+
+        // ── Weekly quotas: judge windows that closed, archive weeks ──
+        const closedDays = closingDay !== "" ? [closingDay, ...skipped] : [];
+        for (const day of closedDays) {
+          if (missedQuotas(state.taskCatalog, day, newDayHistory).length > 0) {
+            newDayHistory[day] = { ...newDayHistory[day], quotaMissed: true };
+          }
+        }
+        const newWeekHistory = { ...state.weekHistory };
         if (closingDay !== "") {
-          newDayHistory[closingDay] = {
-            disciplineDay: closingDay,
-            complete: dayWasComplete,
-            tasksCompleted: builtinDoneCount + customDoneCount,
-            totalTasks,
-            failureCount: state.failureHistory.filter(
-              (f) => f.disciplineDay === closingDay
-            ).length,
-            intent: state.dailyIntents[closingDay] ?? "",
-            mood: state.dailyMoods[closingDay] ?? 0,
-          };
+          for (const week of weeksEndingBetween(
+            closingDay,
+            currentDisciplineDay
+          )) {
+            newWeekHistory[week] ??= archiveWeek(
+              state.taskCatalog,
+              week,
+              newDayHistory
+            );
+          }
         }
 
-        const newStreak =
-          closingDay !== "" && dayWasComplete ? state.streak + 1 : 0;
+        // ── Streak: judge each closed day, oldest first ──
+        // An unopened day is a miss like any other; the policy decides
+        // whether a miss is held (rest day, freeze token) or breaks it.
+        let status = {
+          streak: state.streak,
+          freezes: state.freezeTokens,
+          freezeProgress: state.freezeProgress,
+        };
+        // The last closed day stays correctable from the status it met
+        let correctableDay: CorrectableDay | null = state.correctableDay;
+        for (const day of closedDays) {
+          correctableDay = { disciplineDay: day, before: status };
+          const judged = judgeDay(
+            newDayHistory[day],
+            day,
+            state.streakPolicy,
+            status
+          );
+          newDayHistory[day] = { ...newDayHistory[day], verdict: judged.verdict };
+          status = judged.status;
+        }
 
         set({
-          tasks: { ...initialTaskState },
-          customTaskCompletions: {},
-          streak: newStreak,
+          completions: {},
+          progress: {},
+          checkedItems: {},
+          streak: status.streak,
+          freezeTokens: status.freezes,
+          freezeProgress: status.freezeProgress,
+          correctableDay,
           lastResetDisciplineDay: currentDisciplineDay,
           protocolStartTime: null,
           activePomodoro: null,
+          pomodoroCycle: 0,
+          pomodoroSessions,
           dayHistory: newDayHistory,
+          weekHistory: newWeekHistory,
+          journal: EMPTY_JOURNAL,
+          // ── Compact: archived days carry their own intent + mood ──
+          dailyIntents: dropArchivedDays(state.dailyIntents, newDayHistory),
+          dailyMoods: dropArchivedDays(state.dailyMoods, newDayHistory),
         });
       },
 
       logWeight: (value: number, unit: "kg" | "lbs") => {
-        set((state) => ({
+        const event = boardEvent(get(), "weight_logged", {
+          data: { value, unit },
+        });
+        commitJournaled(set, get, `LOG WEIGHT ${value} ${unit}`, {
           weightLog: [
-            ...state.weightLog,
-            { timestamp: new Date().toISOString(), value, unit },
+            ...get().weightLog,
+            { timestamp: event.timestamp, value, unit },
           ],
-        }));
+          activityLog: appendEvents(get().activityLog, event),
+        });
       },
 
       startPomodoro: (taskId: string, endTime: number, totalMs: number) => {
-        set({ activePomodoro: { taskId, endTime, totalMs } });
+        if (get().activePomodoro) return;
+        set((state) => ({
+          activePomodoro: {
+            taskId,
+            phase: "work",
+            endTime,
+            totalMs,
+            pausedAt: null,
+            pausedMs: 0,
+          },
+          activityLog: appendEvents(
+            state.activityLog,
+            boardEvent(state, "pomodoro_started", { taskId, data: { totalMs } })
+          ),
+        }));
       },
 
       stopPomodoro: () => {
-        set({ activePomodoro: null });
+        const state = get();
+        const { activePomodoro, activityLog } = state;
+        if (!activePomodoro) return;
+        const { taskId, phase } = activePomodoro;
+
+        if (phase !== "work") {
+          set({
+            activePomodoro: null,
+            activityLog: appendEvents(
+              activityLog,
+              boardEvent(state, "break_ended", {
+                taskId,
+                data: { phase, skipped: true },
+              })
+            ),
+          });
+          return;
+        }
+
+        const task = state.taskCatalog.find((t) => t.id === taskId);
+        const pomodoroSessions = [
+          ...state.pomodoroSessions,
+          closeSession(
+            activePomodoro,
+            "stopped",
+            state.lastResetDisciplineDay,
+            task?.label ?? taskId,
+            Date.now()
+          ),
+        ];
+        const completes =
+          !!task?.timeBudget &&
+          !state.completions[taskId] &&
+          budgetStatus(task, pomodoroSessions, state.lastResetDisciplineDay)
+            .met;
+        set({
+          ...(completes && timerCompletion(state, taskId, task)),
+          activePomodoro: null,
+          pomodoroSessions,
+          activityLog: appendEvents(
+            activityLog,
+            boardEvent(state, "pomodoro_stopped", { taskId }),
+            ...(completes ? [taskEvent(state, taskId, true)] : [])
+          ),
+        });
+      },
+
+      pausePomodoro: () => {
+        const { activePomodoro, activityLog } = get();
+        if (!activePomodoro || activePomodoro.pausedAt !== null) return;
+        set({
+          activePomodoro: { ...activePomodoro, pausedAt: Date.now() },
+          activityLog: appendEvents(
+            activityLog,
+            boardEvent(get(), "pomodoro_paused", {
+              taskId: activePomodoro.taskId,
+              data: {
+                phase: activePomodoro.phase,
+                msLeft: timerMsLeft(activePomodoro),
+              },
+            })
+          ),
+        });
+      },
+
+      resumePomodoro: () => {
+        const { activePomodoro, activityLog } = get();
+        if (!activePomodoro || activePomodoro.pausedAt === null) return;
+        const paused = Math.max(0, Date.now() - activePomodoro.pausedAt);
+        set({
+          activePomodoro: {
+            ...activePomodoro,
+            endTime: activePomodoro.endTime + paused,
+            pausedAt: null,
+            pausedMs: activePomodoro.pausedMs + paused,
+          },
+          activityLog: appendEvents(
+            activityLog,
+            boardEvent(get(), "pomodoro_resumed", {
+              taskId: activePomodoro.taskId,
+              data: { phase: activePomodoro.phase, pausedMs: paused },
+            })
+          ),
+        });
+      },
+
+      finishPomodoro: () => {
+        const state = get();
+        const { activePomodoro, completions, activityLog } = state;
+        // Every open tab's timer fires; the first one to finish wins
+        if (
+          !activePomodoro ||
+          activePomodoro.pausedAt !== null ||
+          timerMsLeft(activePomodoro) > 0
+        ) {
+          return;
+        }
+        const id = activePomodoro.taskId;
+        // Its task left the board: nothing to complete, no break to start
+        if (!onBoard(state.taskCatalog, state.lastResetDisciplineDay, id)) {
+          set(dropTimer(state, state.lastResetDisciplineDay));
+          return;
+        }
+        // When it ran out — later than that only if finished after a reload
+        const ranOut = new Date(activePomodoro.endTime);
+
+        if (activePomodoro.phase !== "work") {
+          set({
+            activePomodoro: null,
+            activityLog: appendEvents(
+              activityLog,
+              boardEvent(
+                state,
+                "break_ended",
+                {
+                  taskId: id,
+                  data: { phase: activePomodoro.phase, skipped: false },
+                },
+                ranOut
+              )
+            ),
+          });
+          return;
+        }
+
+        const events = [
+          boardEvent(
+            state,
+            "pomodoro_finished",
+            { taskId: id, data: { pausedMs: activePomodoro.pausedMs } },
+            ranOut
+          ),
+        ];
+        const task = state.taskCatalog.find((t) => t.id === id);
+        const pomodoroSessions = [
+          ...state.pomodoroSessions,
+          closeSession(
+            activePomodoro,
+            "completed",
+            state.lastResetDisciplineDay,
+            task?.label ?? id,
+            activePomodoro.endTime
+          ),
+        ];
+        const intervals =
+          (workIntervalsDone(activityLog, state.lastResetDisciplineDay)[id] ??
+            0) + 1;
+        const completes =
+          !!task &&
+          (task.timeBudget
+            ? budgetStatus(task, pomodoroSessions, state.lastResetDisciplineDay)
+                .met
+            : intervals >= intervalsNeeded(task));
+        if (completes && !completions[id]) {
+          events.push(taskEvent(state, id, true, ranOut));
+        }
+
+        // ── Cycle: the break that is due, if any ──
+        const cycle = state.pomodoroCycle + 1;
+        const due = breakAfter(cycle, state.pomodoroSettings);
+        let nextTimer: ActivePomodoro | null = null;
+        if (due) {
+          const totalMs = due.minutes * 60 * 1000;
+          nextTimer = {
+            taskId: id,
+            phase: due.phase,
+            endTime: ranOut.getTime() + totalMs,
+            totalMs,
+            pausedAt: null,
+            pausedMs: 0,
+          };
+          events.push(
+            boardEvent(
+              state,
+              "break_started",
+              { taskId: id, data: { phase: due.phase, totalMs } },
+              ranOut
+            )
+          );
+        }
+
+        set({
+          ...(completes && timerCompletion(state, id, task)),
+          pomodoroCycle: endsSet(cycle, state.pomodoroSettings) ? 0 : cycle,
+          activePomodoro: nextTimer,
+          pomodoroSessions,
+          activityLog: appendEvents(activityLog, ...events),
+        });
+      },
+
+      settlePomodoro: () => {
+        const dropped = dropTimerOffBoard(get());
+        if (dropped) set(dropped);
+        // A finished work interval may start a break that is also over
+        for (;;) {
+          const { activePomodoro, lastResetDisciplineDay } = get();
+          if (
+            !activePomodoro ||
+            activePomodoro.pausedAt !== null ||
+            timerMsLeft(activePomodoro) > 0 ||
+            getDisciplineDay(new Date(activePomodoro.endTime)) !==
+              lastResetDisciplineDay
+          ) {
+            return;
+          }
+          get().finishPomodoro();
+        }
+      },
+
+      setPomodoroSettings: (settings: PomodoroSettings) => {
+        set((state) => ({
+          pomodoroSettings: settings,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(
+              state,
+              "pomodoroSettings",
+              describePomodoroSettings(settings)
+            )
+          ),
+        }));
       },
 
       toggleEnforceTaskOrder: () => {
-        set((state) => ({ enforceTaskOrder: !state.enforceTaskOrder }));
+        set((state) => ({
+          enforceTaskOrder: !state.enforceTaskOrder,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "enforceTaskOrder", !state.enforceTaskOrder)
+          ),
+        }));
       },
 
       toggleEnforcePomodoro: () => {
-        set((state) => ({ enforcePomodoro: !state.enforcePomodoro }));
+        set((state) => ({
+          enforcePomodoro: !state.enforcePomodoro,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "enforcePomodoro", !state.enforcePomodoro)
+          ),
+        }));
       },
 
-      // ── Computed selectors ─────────────────────────────
+      toggleDeadlineFailures: () => {
+        set((state) => ({
+          deadlineFailures: !state.deadlineFailures,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "deadlineFailures", !state.deadlineFailures)
+          ),
+        }));
+      },
 
-      isDayComplete: () => {
-        const { tasks, customTasks, customTaskCompletions } = get();
-        const builtinDone = TASK_DEFINITIONS.every((t) => tasks[t.id]);
-        const customDone =
-          customTasks.length === 0 ||
-          customTasks.every((t) => customTaskCompletions[t.id]);
-        return builtinDone && customDone;
-      },
-
-      progressPercent: () => {
-        const { tasks, customTasks, customTaskCompletions } = get();
-        const total = TASK_DEFINITIONS.length + customTasks.length;
-        if (total === 0) return 0;
-        const done =
-          TASK_DEFINITIONS.filter((t) => tasks[t.id]).length +
-          customTasks.filter((t) => customTaskCompletions[t.id]).length;
-        return Math.round((done / total) * 100);
+      recordMissedDeadlines: () => {
+        const state = get();
+        const day = state.lastResetDisciplineDay;
+        // Only the live board day: never ahead of a pending reset, nor
+        // before the board day has begun by the clock (reset hour moved
+        // later — the time into the day would read as nearly a full day)
+        if (day === "" || getDisciplineDay() !== day) return;
+
+        const flagged = new Set(
+          eventsForDay(state.activityLog, day)
+            .filter((e) => e.type === "deadline_missed")
+            .map((e) => e.taskId)
+        );
+        const missed = overdueTasks(
+          boardTasks(state.taskCatalog, day),
+          state.completions,
+          minutesIntoDisciplineDay()
+        ).filter((task) => !flagged.has(task.id));
+        if (missed.length === 0) return;
+
+        const events = missed.map((task) =>
+          boardEvent(state, "deadline_missed", {
+            taskId: task.id,
+            data: { deadline: task.deadline ?? "" },
+          })
+        );
+        // Not journaled: undoing would only re-log it on the next poll
+        if (!state.deadlineFailures) {
+          set({ activityLog: appendEvents(state.activityLog, ...events) });
+          return;
+        }
+        const failure = boardEvent(state, "failure_logged", {
+          data: { reason: "deadline" },
+        });
+        const { timestamp, disciplineDay } = failure;
+        set({
+          activityLog: appendEvents(state.activityLog, ...events, failure),
+          failureHistory: [...state.failureHistory, { timestamp, disciplineDay }],
+          isFailureActive: true,
+        });
+        setTimeout(() => set({ isFailureActive: false }), 10_000);
       },
 
-      lockedTaskIds: () => {
-        const { tasks, customTasks, customTaskCompletions, enforceTaskOrder } =
-          get();
-        if (!enforceTaskOrder) return new Set<string>();
+      setDayBoundary: (resetHour: number, timeZone: string | null) => {
+        const state = get();
+        if (!Number.isInteger(resetHour) || resetHour < 0 || resetHour > 23) {
+          return;
+        }
+        if (timeZone !== null && !isValidTimeZone(timeZone)) return;
+        if (resetHour === state.resetHour && timeZone === state.timeZone) return;
+        set({
+          resetHour,
+          timeZone,
+          activityLog: appendEvents(
+            state.activityLog,
+            boardEvent(state, "setting_changed", {
+              data: {
+                setting: "dayBoundary",
+                value: `${formatResetHour(resetHour)} ${timeZone ?? "DEVICE"}`,
+              },
+            })
+          ),
+        });
+      },
 
-        // Combined ordered list: built-ins first, then custom
-        const allIds: string[] = [
-          ...TASK_DEFINITIONS.map((t) => t.id),
-          ...customTasks.map((t) => t.id),
-        ];
+      setDashboardView: (view: DashboardView) => {
+        const state = get();
+        if (view === state.dashboardView) return;
+        set({
+          dashboardView: view,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "dashboardView", view)
+          ),
+        });
+      },
 
-        const locked = new Set<string>();
-        let foundIncomplete = false;
+      setStreakPolicy: (policy: StreakPolicy) => {
+        set((state) => ({
+          streakPolicy: policy,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "streakPolicy", describePolicy(policy))
+          ),
+        }));
+      },
 
-        for (const id of allIds) {
-          if (foundIncomplete) {
-            locked.add(id);
-          }
-          const isBuiltin = TASK_DEFINITIONS.some((t) => t.id === id);
-          const complete = isBuiltin
-            ? tasks[id as TaskId]
-            : (customTaskCompletions[id] ?? false);
-          if (!complete) foundIncomplete = true;
+      recomputeStreak: () => {
+        const state = get();
+        const { dayHistory, status } = rejudgeHistory(
+          state.dayHistory,
+          state.lastResetDisciplineDay,
+          state.streakPolicy
+        );
+        set({
+          dayHistory,
+          streak: status.streak,
+          freezeTokens: status.freezes,
+          freezeProgress: status.freezeProgress,
+          correctableDay: rebaseCorrection(
+            state.correctableDay,
+            dayHistory,
+            state.streakPolicy
+          ),
+          activityLog: appendEvents(
+            state.activityLog,
+            boardEvent(state, "streak_recomputed", {
+              data: { previous: state.streak, streak: status.streak },
+            })
+          ),
+        });
+      },
+
+      setCorrectionWindow: (hours: number) => {
+        set((state) => ({
+          correctionWindowHours: hours,
+          activityLog: appendEvents(
+            state.activityLog,
+            settingEvent(state, "correctionWindowHours", `${hours}h`)
+          ),
+        }));
+      },
+
+      amendClosedDay: (taskId: string, done: boolean) => {
+        const state = get();
+        const day = correctionTarget(state);
+        if (!day || !state.correctableDay) return;
+        const record = state.dayHistory[day];
+        const result = record.taskResults?.find(
+          (r) => r.id === taskId && !r.quota
+        );
+        if (!result || result.done === done) return;
+
+        const amended = amendRecord(record, taskId, done);
+        const judged = judgeDay(
+          amended,
+          day,
+          state.streakPolicy,
+          state.correctableDay.before
+        );
+        const event = boardEvent(state, "day_amended", {
+          taskId,
+          data: { day, done },
+        });
+        set({
+          dayHistory: {
+            ...state.dayHistory,
+            [day]: { ...amended, verdict: judged.verdict },
+          },
+          streak: judged.status.streak,
+          freezeTokens: judged.status.freezes,
+          freezeProgress: judged.status.freezeProgress,
+          amendments: [
+            ...state.amendments,
+            {
+              timestamp: event.timestamp,
+              disciplineDay: day,
+              taskId,
+              label: result.label,
+              wasDone: result.done,
+              done,
+              original: {
+                tasksCompleted: record.tasksCompleted,
+                complete: record.complete,
+                progressPercent: record.progressPercent ?? null,
+                verdict: record.verdict ?? null,
+                streak: state.streak,
+              },
+            },
+          ],
+          activityLog: appendEvents(state.activityLog, event),
+        });
+      },
+
+      dismissStorageRecovery: () => {
+        set({ storageRecovery: null });
+      },
+
+      reportStorageError: (message: string) => {
+        const current = get().storageRecovery;
+        if (current?.errors.includes(message)) return;
+        set({
+          storageRecovery: current
+            ? { ...current, errors: [...current.errors, message] }
+            : { kind: "degraded", backupKey: null, errors: [message] },
+        });
+      },
+
+      markHydrated: (error?: unknown) => {
+        if (!error) {
+          set({ hasHydrated: true });
+          // Before the overdue reset runs, so the interval counts for its day
+          get().settlePomodoro();
+          return;
         }
+        // Unparseable storage never reaches merge — back it up here instead
+        set({
+          hasHydrated: true,
+          storageRecovery: {
+            kind: "rejected",
+            backupKey: backupRawPayload(),
+            errors: [error instanceof Error ? error.message : String(error)],
+          },
+        });
+      },
+
+      restoreState: (restored: PersistedGrindState) => {
+        set({
+          ...pickPersisted(restored),
+          // Undo history belongs to the pre-restore state
+          journal: EMPTY_JOURNAL,
+        });
+      },
+
+      undo: () => {
+        const state = get();
+        const entry = state.journal.past[state.journal.past.length - 1];
+        if (!entry) return;
+        set({
+          ...patchFor(state, entry, "backward"),
+          journal: {
+            past: state.journal.past.slice(0, -1),
+            future: [...state.journal.future, entry],
+          },
+        });
+        const dropped = dropTimerOffBoard(get());
+        if (dropped) set(dropped);
+      },
+
+      redo: () => {
+        const state = get();
+        const entry = state.journal.future[state.journal.future.length - 1];
+        if (!entry) return;
+        set({
+          ...patchFor(state, entry, "forward"),
+          journal: {
+            past: [...state.journal.past, entry],
+            future: state.journal.future.slice(0, -1),
+          },
+        });
+        const dropped = dropTimerOffBoard(get());
+        if (dropped) set(dropped);
+      },
 
-        return locked;
+      // ── Computed selectors ─────────────────────────────
+
+      isDayComplete: () => {
+        const { taskCatalog, completions, lastResetDisciplineDay } = get();
+        return isBoardComplete(taskCatalog, lastResetDisciplineDay, completions);
+      },
+
+      progressPercent: () =>
+        boardProgressPercent(get(), get().lastResetDisciplineDay),
+
+      lockedTaskIds: () => {
+        const {
+          taskCatalog,
+          completions,
+          enforceTaskOrder,
+          lastResetDisciplineDay,
+        } = get();
+        if (!enforceTaskOrder) return new Set<string>();
+
+        // Tasks with an unmet prerequisite on the board (set in TaskEditor)
+        const board = boardTasks(taskCatalog, lastResetDisciplineDay);
+        return new Set(blockedTasks(board, completions).keys());
       },
     }),
 
     {
-      name: "grindos-state-v2",
-      storage: createJSONStorage(() => localStorage),
-      partialize: (state) => ({
-        tasks: state.tasks,
-        customTasks: state.customTasks,
-        customTaskCompletions: state.customTaskCompletions,
-        streak: state.streak,
-        lastResetDisciplineDay: state.lastResetDisciplineDay,
-        protocolStartTime: state.protocolStartTime,
-        failureHistory: state.failureHistory,
-        dailyIntents: state.dailyIntents,
-        dailyMoods: state.dailyMoods,
-        weightLog: state.weightLog,
-        dayHistory: state.dayHistory,
-        enforceTaskOrder: state.enforceTaskOrder,
-        enforcePomodoro: state.enforcePomodoro,
-        // isFailureActive and activePomodoro intentionally omitted
-      }),
+      name: STORAGE_KEY,
+      version: STORE_VERSION,
+      // Storage errors surface after create() returned (they are async)
+      storage: createIndexedDBStorage((message) =>
+        useGrindStore.getState().reportStorageError(message)
+      ),
+      migrate: (persisted, version) =>
+        migratePersistedState(persisted, version) as PersistedGrindState,
+      // Runs on every rehydration (migrated or not). Invalid payloads are
+      // backed up and replaced by defaults instead of being merged.
+      merge: (persisted, current) => {
+        if (persisted === undefined) return current;
+        const errors = validatePersistedState(persisted);
+        if (errors.length > 0) {
+          return {
+            ...current,
+            storageRecovery: {
+              kind: "rejected",
+              backupKey: backupRawPayload(),
+              errors,
+            },
+          };
+        }
+        return { ...current, ...(persisted as PersistedGrindState) };
+      },
+      // Uses the initial state's action: with synchronous storage this
+      // callback fires before `useGrindStore` has been assigned.
+      onRehydrateStorage: (initial) => (_state, error) => {
+        initial.markHydrated(error);
+      },
+      partialize: (state): PersistedGrindState => pickPersisted(state),
     }
   )
 );
+
+// Keep timeUtils' day boundary in step with the persisted settings — on
+// hydration, local changes and changes synced from other tabs alike.
+configureDisciplineDay(useGrindStore.getState());
+useGrindStore.subscribe((state, previous) => {
+  if (
+    state.resetHour !== previous.resetHour ||
+    state.timeZone !== previous.timeZone
+  ) {
+    configureDisciplineDay(state);
+  }
+});